@@ -0,0 +1,119 @@
+import { defineStore } from 'pinia'
+import * as d3 from 'd3'
+import { Book, Selection, SelectionKey } from '../types'
+import { CATEGORY_COLORS, MUTED_COLOR, OTHER } from '../utils/chart'
+
+// the React dashboard's copy, so both stacks read the same file (see server.fs.allow in vite.config.ts)
+export const BOOKS_CSV_URL = new URL('../../../qkma/data/top_1000_most_swapped_books.csv', import.meta.url).href
+
+export const decadeOf = (year: number) => Math.floor(year / 10) * 10
+
+const text = (value: string | undefined) => (value ?? '').trim()
+
+// The file starts with a byte order mark, so the first header may come through as '\ufeffid'.
+function parseBook(row: d3.DSVRowString): Book {
+    return {
+        id: +text(row.id ?? row['\ufeffid']),
+        title: text(row.title),
+        author: text(row.author),
+        genre: text(row.genre) || 'Unknown',
+        language: text(row.language) || 'Unknown',
+        publicationYear: +text(row.publicationYear),
+        publisher: text(row.publisher) || 'Unknown',
+        rating_average: +text(row.rating_average),
+        most_popular_country: text(row.most_popular_country) || 'Unknown',
+        bestseller_status: text(row.bestseller_status).toLowerCase() === 'true',
+        age_category: text(row.age_category) || 'Unknown',
+        adapted_to_movie: text(row.adapted_to_movie).toLowerCase() === 'true',
+    }
+}
+
+const emptySelection = (): Selection => ({ genre: [], age_category: [], adapted_to_movie: [], bestseller_status: [], decade: [] })
+
+export type CategoryKey = Exclude<SelectionKey, 'decade'>
+
+// A book's value for `key`, with the flags spelled out as in the React dashboard.
+export function categoryOf(book: Book, key: CategoryKey): string {
+    if (key === 'adapted_to_movie') return book.adapted_to_movie ? 'Adapted To Movie' : 'Not Adapted To Movie'
+    if (key === 'bestseller_status') return book.bestseller_status ? 'Bestseller' : 'Not Bestseller'
+    return book[key]
+}
+
+const valueOf = (book: Book, key: SelectionKey) => (key === 'decade' ? decadeOf(book.publicationYear) : categoryOf(book, key))
+
+// The parsed dataset and what the user clicked on, shared by every chart.
+export const useBookStore = defineStore('books', {
+    state: () => ({
+        books: [] as Book[],
+        loading: false,
+        error: null as string | null,
+        selection: emptySelection(),
+    }),
+    getters: {
+        // Books passing the selection, except on `ignore`: a chart keeps its own axes
+        // complete so the selected values can be highlighted instead of disappearing.
+        filteredExcept: (state) => (...ignore: SelectionKey[]) => {
+            const keys = (Object.keys(state.selection) as SelectionKey[])
+                .filter((key) => !ignore.includes(key) && state.selection[key].length > 0)
+            return state.books.filter((book) => keys.every((key) => (state.selection[key] as (string | number)[]).includes(valueOf(book, key))))
+        },
+        filteredBooks(): Book[] {
+            return this.filteredExcept()
+        },
+        // Color of a genre, age category or flag, the same in every chart: values get
+        // the palette colors by how many books they have in the whole dataset.
+        colorOf: (state) => {
+            const scales = new Map<CategoryKey, d3.ScaleOrdinal<string, string>>()
+            return (key: CategoryKey, value: string) => {
+                if (value === OTHER) return MUTED_COLOR
+                if (!scales.has(key)) {
+                    const domain = Array.from(d3.rollup(state.books, (v) => v.length, (d) => categoryOf(d, key)))
+                        .sort((a, b) => b[1] - a[1] || d3.ascending(a[0], b[0]))
+                        .map((d) => d[0])
+                    scales.set(key, d3.scaleOrdinal<string, string>().domain(domain).range(CATEGORY_COLORS))
+                }
+                return scales.get(key)!(value)
+            }
+        },
+        hasSelection: (state) => Object.values(state.selection).some((values) => values.length > 0),
+    },
+    actions: {
+        async load(url: string = BOOKS_CSV_URL) {
+            if (this.loading || this.books.length > 0) return
+            this.loading = true
+            this.error = null
+            try {
+                this.books = Array.from(await d3.csv(url, parseBook))
+            } catch (error) {
+                console.error('Error loading CSV:', error)
+                this.error = String(error)
+            } finally {
+                this.loading = false
+            }
+        },
+        toggle<K extends SelectionKey>(key: K, value: Selection[K][number]) {
+            const values = this.selection[key] as Selection[K][number][]
+            this.selection[key] = (values.includes(value)
+                ? values.filter((d) => d !== value)
+                : [...values, value]) as Selection[K]
+        },
+        // Selects exactly `values`, e.g. one genre and one decade, or clears
+        // those keys when they already are the selection.
+        select(values: Partial<Selection>) {
+            const keys = Object.keys(values) as SelectionKey[]
+            const same = keys.every((key) => {
+                const current = this.selection[key] as (string | number)[]
+                const next = values[key] as (string | number)[]
+                return current.length === next.length && next.every((d) => current.includes(d))
+            })
+            const selection = this.selection as Record<SelectionKey, (string | number)[]>
+            keys.forEach((key) => {
+                selection[key] = same ? [] : [...values[key]!]
+            })
+        },
+        clear(key?: SelectionKey) {
+            if (key) this.selection[key] = []
+            else this.selection = emptySelection()
+        },
+    },
+})
@@ -18,4 +18,32 @@ export interface Point {
 
 export interface Bar{
     readonly value: number;
-}
\ No newline at end of file
+}
+// One row of top_1000_most_swapped_books.csv, the columns the charts use.
+export interface Book {
+    readonly id: number;
+    readonly title: string;
+    readonly author: string;
+    readonly genre: string;
+    readonly language: string;
+    readonly publicationYear: number;
+    readonly publisher: string;
+    readonly rating_average: number;
+    readonly most_popular_country: string;
+    readonly bestseller_status: boolean;
+    readonly age_category: string;
+    readonly adapted_to_movie: boolean;
+}
+
+// The selected values, an empty list means "all".
+export interface Selection {
+    genre: string[];
+    age_category: string[];
+    // the flags by their labels, e.g. "Bestseller", as the Sankey nodes show them
+    adapted_to_movie: string[];
+    bestseller_status: string[];
+    // first year of each selected decade, e.g. 1990
+    decade: number[];
+}
+
+export type SelectionKey = keyof Selection;
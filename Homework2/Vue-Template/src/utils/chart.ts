@@ -0,0 +1,46 @@
+import * as d3 from 'd3'
+import { debounce } from 'lodash'
+import { ref, Ref } from 'vue'
+import { useResizeObserver } from '@vueuse/core'
+import { ComponentSize } from '../types'
+
+// duration of the enter/update/exit transitions shared by all charts
+export const TRANSITION_MS = 600
+
+export const OTHER = 'Other'
+
+// the colors of the React dashboard, so both stacks look alike
+export const CATEGORY_COLORS = [
+    '#1466a1', '#4daaed', '#119667', '#7cc37c',
+    '#a0dba0', '#aeddff', '#1fa284', '#55ecc8',
+    '#91c1b6', '#a3de79',
+]
+export const MUTED_COLOR = '#aeb8c2'
+
+// Returns the child `<tag class=className>` of `parent`, creating it on the first draw.
+// Charts keep their layers between redraws and only re-join the data inside them.
+// The strict build checks selection types exactly, so charts select their svg as a
+// d3.BaseType and layers carry an `unknown` datum, which lets layers nest.
+export function ensureLayer<E extends d3.BaseType = SVGGElement>(
+    parent: d3.Selection<d3.BaseType, unknown, d3.BaseType, unknown>,
+    className: string,
+    tag: string = 'g',
+) {
+    return parent
+        .selectChildren<E, unknown>(`${tag}.${className}`)
+        .data<unknown>([null])
+        .join((enter) => enter.append<E>(tag).attr('class', className))
+}
+
+// Size of `container`, updated (debounced) whenever it is resized.
+export function useChartSize(container: Ref<HTMLElement | null>) {
+    const size = ref<ComponentSize>({ width: 0, height: 0 })
+    const update = debounce((width: number, height: number) => {
+        size.value = { width, height }
+    }, 100)
+    useResizeObserver(container, (entries) => {
+        const { width, height } = entries[0].contentRect
+        update(width, height)
+    })
+    return size
+}
@@ -6,6 +6,10 @@ import vuetify from 'vite-plugin-vuetify'
 export default defineConfig({
   server: {
     port: 3000,
+    fs: {
+      // the book dataset is shared with the React dashboard
+      allow: ['.', '../qkma/data'],
+    },
   },
   plugins: [
     vue(),
@@ -1,29 +1,24 @@
-import Example from './components/Example'
-import Chart2 from './components/Chart2'
-import Chart3 from './components/Chart3'
-import Notes from './components/Notes'
-import { NotesWithReducer, CountProvider } from './components/NotesWithReducer';
-import Grid from '@mui/material/Grid';
+import FilterBar from './components/FilterBar'
+import BookDrawer from './components/BookDrawer'
+import DashboardGrid from './components/DashboardGrid'
+import DatasetUpload from './components/DatasetUpload'
+import HistoryBreadcrumbs from './components/HistoryBreadcrumbs'
+import ThemeSwitcher from './components/ThemeSwitcher'
+import LoadingProgress from './components/LoadingProgress'
 import Stack from '@mui/material/Stack';
 import Box from '@mui/material/Box';
-import { createTheme, ThemeProvider } from '@mui/material/styles';
-import { grey } from '@mui/material/colors';
-
-// Adjust the color theme for material ui
-const theme = createTheme({
-  palette: {
-    primary:{
-      main: grey[700],
-    },
-    secondary:{
-      main: grey[700],
-    }
-  },
-})
-
-// For how Grid works, refer to https://mui.com/material-ui/react-grid/
+import { BookDataProvider } from './stores/BookDataContext';
+import { FilterProvider } from './stores/FilterContext';
+import { DrillDownProvider } from './stores/DrillDownContext';
+import { ViewProvider } from './stores/ViewContext';
+import { LayoutProvider } from './stores/LayoutContext';
+import { HistoryProvider } from './stores/HistoryContext';
+import { ChartThemeProvider } from './stores/ThemeContext';
+import { useUrlState } from './stores/UrlState';
 
 function Layout() {
+  useUrlState();
+
   return (
     <Box
       id="main-container"
@@ -35,29 +30,40 @@ function Layout() {
         boxSizing: 'border-box'
       }}
     >
-      {/* Chart1 */}
-      <Box sx={{ height: '60vh', width: '100%', mb: 2 }}>
-        <Example />
-      </Box>
+      <Stack spacing={1} sx={{ mb: 2 }}>
+        <Stack direction='row' spacing={2} alignItems='center' justifyContent='space-between' useFlexGap flexWrap='wrap'>
+          <DatasetUpload />
+          <ThemeSwitcher />
+        </Stack>
+        <LoadingProgress />
+        <FilterBar />
+        <HistoryBreadcrumbs />
+      </Stack>
 
-      {/* Chart2 */}
-      <Box sx={{ height: '60vh', width: '100%', mb: 2 }}>
-        <Chart2 />
-      </Box>
+      <DashboardGrid />
 
-      {/* Chart3 */}
-      <Box sx={{ height: '60vh', width: '100%', mb: 2 }}>
-        <Chart3 />
-      </Box>
+      <BookDrawer />
     </Box>
   );
 }
 
 function App() {
   return (
-    <ThemeProvider theme={theme}>
-      <Layout />
-    </ThemeProvider>
+    <BookDataProvider>
+      <ChartThemeProvider>
+        <FilterProvider>
+          <ViewProvider>
+            <LayoutProvider>
+              <DrillDownProvider>
+                <HistoryProvider>
+                  <Layout />
+                </HistoryProvider>
+              </DrillDownProvider>
+            </LayoutProvider>
+          </ViewProvider>
+        </FilterProvider>
+      </ChartThemeProvider>
+    </BookDataProvider>
   )
 }
 
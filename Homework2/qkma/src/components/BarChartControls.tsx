@@ -0,0 +1,65 @@
+import React from 'react';
+import { Stack, ToggleButtonGroup, ToggleButton, TextField, MenuItem, FormControlLabel, Switch } from '@mui/material';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, BarLayout, SMALL_GENRE_SHARE } from '../stores/ViewReducer';
+
+const LAYOUTS: [BarLayout, string][] = [
+  ['stacked', 'Stacked'],
+  ['grouped', 'Grouped'],
+  ['normalized', '100%'],
+];
+
+// Layout, sort order and "Other" folding for the genre bar chart. `stacks` are
+// the age categories currently shown, offered as sort keys.
+export default function BarChartControls({ stacks }: { stacks: string[] }) {
+  const { view, dispatch } = useView();
+  const { layout, sort, sortStack, collapseSmall } = view.bar;
+
+  // the select encodes a stack share sort as "stack:<age category>"
+  const sortValue = sort === 'stackShare' && sortStack !== null ? `stack:${sortStack}` : sort;
+  // keep a sort stack that the filters removed selectable
+  const sortStacks = sortStack !== null && !stacks.includes(sortStack) ? [...stacks, sortStack] : stacks;
+
+  function setSort(value: string) {
+    if (value.startsWith('stack:')) {
+      dispatch({ type: VIEW_ACTIONS.SET_BAR_SORT, sort: 'stackShare', stack: value.slice('stack:'.length) });
+    } else {
+      dispatch({ type: VIEW_ACTIONS.SET_BAR_SORT, sort: value === 'alphabetical' ? 'alphabetical' : 'total' });
+    }
+  }
+
+  return (
+    <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+      <ToggleButtonGroup
+        exclusive
+        size='small'
+        value={layout}
+        onChange={(_, value: BarLayout | null) => value && dispatch({ type: VIEW_ACTIONS.SET_BAR_LAYOUT, layout: value })}
+      >
+        {LAYOUTS.map(([key, label]) => <ToggleButton key={key} value={key}>{label}</ToggleButton>)}
+      </ToggleButtonGroup>
+      <TextField
+        select
+        size='small'
+        label='Sort by'
+        value={sortValue}
+        onChange={event => setSort(event.target.value)}
+        sx={{ width: 200 }}
+      >
+        <MenuItem value='total'>Total</MenuItem>
+        <MenuItem value='alphabetical'>Alphabetical</MenuItem>
+        {sortStacks.map(stack => <MenuItem key={stack} value={`stack:${stack}`}>Share of {stack}</MenuItem>)}
+      </TextField>
+      <FormControlLabel
+        control={
+          <Switch
+            size='small'
+            checked={collapseSmall}
+            onChange={(_, checked) => dispatch({ type: VIEW_ACTIONS.SET_BAR_COLLAPSE, collapse: checked })}
+          />
+        }
+        label={`Group genres under ${SMALL_GENRE_SHARE * 100}% as Other`}
+      />
+    </Stack>
+  );
+}
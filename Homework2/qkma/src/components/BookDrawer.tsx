@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import {
+  Drawer, Box, Stack, Typography, IconButton, Divider, Chip, Card, CardContent, CardHeader,
+  Table, TableHead, TableBody, TableRow, TableCell, TableSortLabel, TablePagination,
+} from '@mui/material';
+import { Book } from '../types';
+import { useDrillDown } from '../stores/DrillDownContext';
+
+type SortKey = 'id' | 'title' | 'author' | 'publicationYear' | 'rating_average';
+
+const columns: { key: SortKey, label: string, numeric: boolean }[] = [
+  { key: 'id', label: 'Rank', numeric: true },
+  { key: 'title', label: 'Title', numeric: false },
+  { key: 'author', label: 'Author', numeric: false },
+  { key: 'publicationYear', label: 'Year', numeric: true },
+  { key: 'rating_average', label: 'Rating', numeric: true },
+];
+
+const rating = d3.format('.2f');
+
+function BookCard({ book, onClose }: { book: Book, onClose: () => void }) {
+  const facts: [string, string | number][] = [
+    ['Genre', book.genre],
+    ['Age Category', book.age_category],
+    ['Published', `${book.publicationYear}, ${book.publisher}`],
+    ['Language', book.language],
+    ['Pages', book.pageCount],
+    ['Rating', rating(book.rating_average)],
+    ['Most Popular In', book.most_popular_country],
+    ['Bestseller', book.bestseller_status ? 'Yes' : 'No'],
+    ['Movie', book.movie_release_year === null ? 'Not adapted' : `Adapted in ${book.movie_release_year}`],
+    ['ISBN', book.isbn],
+  ];
+
+  return (
+    <Card variant='outlined' sx={{ mb: 2 }}>
+      <CardHeader
+        title={book.title}
+        subheader={`#${book.id} · ${book.author}`}
+        action={<IconButton aria-label='Close details' onClick={onClose}>×</IconButton>}
+      />
+      <CardContent sx={{ pt: 0 }}>
+        <Typography variant='body2' sx={{ mb: 1 }}>{book.description}</Typography>
+        <Table size='small'>
+          <TableBody>
+            {facts.map(([label, value]) => (
+              <TableRow key={label}>
+                <TableCell component='th' sx={{ fontWeight: 'bold' }}>{label}</TableCell>
+                <TableCell>{value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {book.awards.length > 0 && (
+          <Stack direction='row' spacing={1} useFlexGap flexWrap='wrap' sx={{ mt: 1 }}>
+            {book.awards.map(award => <Chip key={award} size='small' color='primary' label={award} />)}
+          </Stack>
+        )}
+        {book.tags.length > 0 && (
+          <Stack direction='row' spacing={1} useFlexGap flexWrap='wrap' sx={{ mt: 1 }}>
+            {book.tags.map(tag => <Chip key={tag} size='small' variant='outlined' label={tag} />)}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Lists the books behind the mark that was drilled into from one of the charts.
+export default function BookDrawer() {
+  const { drillDown, closeDrillDown } = useDrillDown();
+  const [sortKey, setSortKey] = useState<SortKey>('id');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [selected, setSelected] = useState<Book | null>(null);
+
+  // a new drill down starts from the first page, a single book opens straight to its card
+  useEffect(() => {
+    setPage(0);
+    setSelected(drillDown?.books.length === 1 ? drillDown.books[0] : null);
+  }, [drillDown]);
+
+  const rows = useMemo(() => {
+    const compare = order === 'asc' ? d3.ascending : d3.descending;
+    return (drillDown?.books ?? []).slice().sort((a, b) => compare(a[sortKey], b[sortKey]));
+  }, [drillDown, sortKey, order]);
+
+  function sortBy(key: SortKey) {
+    setOrder(sortKey === key && order === 'asc' ? 'desc' : 'asc');
+    setSortKey(key);
+    setPage(0);
+  }
+
+  return (
+    <Drawer anchor='right' open={drillDown !== null} onClose={closeDrillDown}>
+      <Box sx={{ width: { xs: '100vw', sm: 560 }, padding: 2, boxSizing: 'border-box' }}>
+        <Stack direction='row' alignItems='center' justifyContent='space-between'>
+          <Box>
+            <Typography variant='h6'>{drillDown?.title}</Typography>
+            <Typography variant='body2' color='text.secondary'>{rows.length} books</Typography>
+          </Box>
+          <IconButton aria-label='Close' onClick={closeDrillDown}>×</IconButton>
+        </Stack>
+        <Divider sx={{ my: 1 }} />
+        {selected && <BookCard book={selected} onClose={() => setSelected(null)} />}
+        <Table size='small'>
+          <TableHead>
+            <TableRow>
+              {columns.map(column => (
+                <TableCell key={column.key} align={column.numeric ? 'right' : 'left'}>
+                  <TableSortLabel
+                    active={sortKey === column.key}
+                    direction={sortKey === column.key ? order : 'asc'}
+                    onClick={() => sortBy(column.key)}
+                  >
+                    {column.label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+              <TableCell>Awards</TableCell>
+              <TableCell>ISBN</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.slice(page * rowsPerPage, (page + 1) * rowsPerPage).map(book => (
+              <TableRow
+                key={book.id}
+                hover
+                selected={selected?.id === book.id}
+                tabIndex={0}
+                sx={{ cursor: 'pointer' }}
+                onClick={() => setSelected(book)}
+                onKeyDown={event => event.key === 'Enter' && setSelected(book)}
+              >
+                <TableCell align='right'>{book.id}</TableCell>
+                <TableCell>{book.title}</TableCell>
+                <TableCell>{book.author}</TableCell>
+                <TableCell align='right'>{book.publicationYear}</TableCell>
+                <TableCell align='right'>{rating(book.rating_average)}</TableCell>
+                <TableCell>{book.awards.join(', ')}</TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{book.isbn}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component='div'
+          count={rows.length}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50]}
+          onPageChange={(_, page) => setPage(page)}
+          onRowsPerPageChange={event => {
+            setRowsPerPage(+event.target.value);
+            setPage(0);
+          }}
+        />
+      </Box>
+    </Drawer>
+  );
+}
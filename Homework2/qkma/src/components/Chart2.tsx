@@ -1,239 +1,560 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import * as d3 from 'd3';
-import { isEmpty } from 'lodash';
-import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import ChartDataTable from './ChartDataTable';
+import { summarizeStats } from '../utils/summary';
+import { Book, Margin } from '../types';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { Box, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, HeatmapMode } from '../stores/ViewReducer';
+import ExportMenu from './ExportMenu';
+import { useChartTheme } from '../stores/ThemeContext';
+import { ChartTheme } from '../utils/theme';
+import { OTHER, getDimension, categoryFilterKey, DimensionKey } from '../utils/dimensions';
+import { useChartFrame } from '../utils/useChartFrame';
+import { useFacet, useFacetDomain, useFacetTotals } from '../stores/FacetContext';
+import { emptyStats, mergeStats, totalsBy, RollupStats, ValueRestriction } from '../utils/rollup';
+import { useBookLookup } from '../stores/BookDataContext';
+import { usesCanvas, drawCanvasMarks, clearCanvas, canvasHitTester, attachCanvasInteraction, attachCanvasFocus, CanvasMark, Renderer, CANVAS_STYLE } from '../utils/canvas';
 
 interface HeatmapData {
-  genre: string;
+  row: string;
   decade: number;
   count: number;
+  // what the cell is colored by in the current mode
+  value: number;
 }
 
-interface ComponentSize {
-  width: number;
-  height: number;
+interface HeatmapModeInfo {
+  label: string;
+  // legend texts, given the lowercase label of the rows and how many get their own row
+  legend: (row: string) => string;
+  outline: (row: string, maxRows: number) => string;
+  format: (v: number) => string;
 }
 
-interface Margin {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
+const HEATMAP_MODES: Record<HeatmapMode, HeatmapModeInfo> = {
+  count: {
+    label: 'Count',
+    legend: () => 'Books',
+    outline: (row, maxRows) => `Most dominant Top-${maxRows} ${row} in each decade`,
+    format: d3.format(',.0f'),
+  },
+  decadeShare: {
+    label: 'Share of decade',
+    legend: () => 'Share of the decade\'s books',
+    outline: () => 'Largest share of each decade',
+    format: d3.format('.0%'),
+  },
+  genreShare: {
+    label: 'Share of genre',
+    legend: row => `Share of the ${row}'s books`,
+    outline: row => `Decade holding the largest share of its ${row}`,
+    format: d3.format('.0%'),
+  },
+  residual: {
+    label: 'Deviation',
+    legend: () => 'Chi-square residual (fewer ← expected → more)',
+    outline: row => `Most over-represented ${row} in each decade`,
+    format: d3.format('+.1f'),
+  },
+};
+
+// Fills in `value` for the mode. Residuals also need the empty cells,
+// a genre missing from a decade is as informative as one dominating it.
+function normalize(cells: HeatmapData[], mode: HeatmapMode): HeatmapData[] {
+  const rowTotals = d3.rollup(cells, v => d3.sum(v, d => d.count), d => d.row);
+  const decadeTotals = d3.rollup(cells, v => d3.sum(v, d => d.count), d => d.decade);
+  const total = d3.sum(cells, d => d.count);
+
+  switch (mode) {
+    case 'count':
+      return cells.map(d => ({ ...d, value: d.count }));
+    case 'decadeShare':
+      return cells.map(d => ({ ...d, value: d.count / decadeTotals.get(d.decade)! }));
+    case 'genreShare':
+      return cells.map(d => ({ ...d, value: d.count / rowTotals.get(d.row)! }));
+    case 'residual': {
+      const counts = new Map(cells.map(d => [`${d.row}|${d.decade}`, d.count]));
+      const full: HeatmapData[] = [];
+      for (const [row, rowTotal] of rowTotals) {
+        for (const [decade, decadeTotal] of decadeTotals) {
+          const count = counts.get(`${row}|${decade}`) ?? 0;
+          const expected = (rowTotal * decadeTotal) / total;
+          full.push({ row, decade, count, value: expected > 0 ? (count - expected) / Math.sqrt(expected) : 0 });
+        }
+      }
+      return full;
+    }
+  }
 }
 
-export default function GenreDecadeHeatmap() {
-  const [data, setData] = useState<HeatmapData[]>([]);
-  const heatmapRef = useRef<HTMLDivElement>(null);
-  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+interface GenreDecadeHeatmapProps {
+  // books to draw instead of the filtered dataset, summed on the main thread
+  books?: Book[];
+  // only some of the filtered books, e.g. one small multiple's
+  restrict?: readonly ValueRestriction[];
+  // one row per value, the rest beyond `maxRows` is folded into "Other"
+  row?: DimensionKey;
+  maxRows?: number;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  // color scales instead of the theme's
+  palette?: Partial<Pick<ChartTheme, 'sequential' | 'diverging'>>;
+  // fractions of the width (left, right) and height (top, bottom)
+  margin?: Margin;
+  // the color mode toggle
+  showControls?: boolean;
+  // 'auto' draws the cells on a canvas when there are too many for SVG
+  renderer?: Renderer;
+}
 
-  const margin: Margin = { top: 0.2, right: 0.04, bottom: 0.32, left: 0.14 };
+// The color mode, shared by every heatmap on the page.
+export function HeatmapModeToggle() {
+  const { view, dispatch } = useView();
+  return (
+    <ToggleButtonGroup
+      exclusive
+      size='small'
+      value={view.heatmapMode}
+      onChange={(_, value: HeatmapMode | null) => value && dispatch({ type: VIEW_ACTIONS.SET_HEATMAP_MODE, mode: value })}
+      sx={{ padding: 1 }}
+    >
+      {(Object.keys(HEATMAP_MODES) as HeatmapMode[]).map(key => (
+        <ToggleButton key={key} value={key}>{HEATMAP_MODES[key].label}</ToggleButton>
+      ))}
+    </ToggleButtonGroup>
+  );
+}
 
-  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-  useResizeObserver({ ref: heatmapRef as React.RefObject<HTMLDivElement>, onResize });
+const DEFAULT_MARGIN: Margin = { top: 0.2, right: 0.04, bottom: 0.32, left: 0.14 };
+
+// the decade axis stays complete so the selected decades can be highlighted
+const IGNORED_FILTERS: readonly FilterKey[] = ['yearRange'];
+// the same array every render, so a row without a filter does not redraw the chart
+const NO_VALUES: string[] = [];
+
+export default function GenreDecadeHeatmap({
+  books: booksProp,
+  restrict,
+  row = 'genre',
+  maxRows = 20,
+  title,
+  xLabel = 'Publication Decade',
+  yLabel,
+  palette,
+  margin = DEFAULT_MARGIN,
+  showControls = true,
+  renderer = 'auto',
+}: GenreDecadeHeatmapProps) {
+  const { filters, dispatch } = useFilters();
+  const lookup = useBookLookup(booksProp);
+  const { tooltip, ...tooltipHandlers } = useTooltip(lookup);
+  const { openDrillDown } = useDrillDown();
+  const { view } = useView();
+  const { chart } = useChartTheme();
+  const mode = view.heatmapMode;
+  const { containerRef, svgRef, frame, ready } = useChartFrame(margin);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rowDimension = getDimension(row);
+  const filterKey = categoryFilterKey(row);
+  const label = rowDimension.label.toLowerCase();
+  const selectedRows = filterKey ? filters[filterKey] : NO_VALUES;
+
+  // books per row and decade, summed in the worker unless the books come from the props
+  const totals = useRollup([row, 'decade'], { ignore: IGNORED_FILTERS, restrict, books: booksProp });
+
+  // books per row, summed over all small multiples when they share their scales
+  // so every panel gives the same rows their own
+  const localRowTotals = useMemo(() => totalsBy(totals, 0), [totals]);
+  const rowTotals = useFacetTotals(localRowTotals);
+
+  // the books behind each cell, and the decade totals the tooltips compare them to
+  const { data, cellStats, decadeTotals } = useMemo(() => {
+    const topRows = new Set(
+      Array.from(rowTotals)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxRows)
+        .map(d => d[0])
+    );
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const rawData = await d3.csv('../../data/top_1000_most_swapped_books.csv');
-
-        const topGenres = Array.from(
-          d3.rollup(rawData, v => v.length, d => d.genre).entries()
-        )
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 20)
-          .map(d => d[0]);
-
-        const grouped = d3.rollups(
-          rawData,
-          v => v.length,
-          d => (topGenres.includes(d.genre!) ? d.genre! : 'Other'),
-          d => Math.floor(+d.publicationYear! / 10) * 10
-        );
-
-        const heatmapData: HeatmapData[] = [];
-        grouped.forEach(([genre, decades]) => {
-          decades.forEach(([decade, count]) => {
-            heatmapData.push({ genre, decade, count });
-          });
-        });
-
-        setData(heatmapData);
-      } catch (error) {
-        console.error('Error loading CSV:', error);
-      }
-    };
+    const grouped = d3.rollups(
+      totals,
+      v => mergeStats(v),
+      d => (topRows.has(d.keys[0]) ? d.keys[0] : OTHER),
+      d => +d.keys[1]
+    );
 
-    loadData();
-  }, []);
+    const heatmapData: HeatmapData[] = [];
+    const cellStats = new Map<string, RollupStats>();
+    grouped.forEach(([row, decades]) => {
+      decades.forEach(([decade, stats]) => {
+        heatmapData.push({ row, decade, count: stats.value, value: stats.value });
+        cellStats.set(`${row}|${decade}`, stats);
+      });
+    });
+    const decadeTotals = d3.rollup(heatmapData, v => d3.sum(v, d => d.count), d => d.decade);
+    return { data: heatmapData, cellStats, decadeTotals };
+  }, [totals, rowTotals, maxRows]);
+
+  const cells = useMemo(() => normalize(data, mode), [data, mode]);
+
+  // decades and rows (largest first, "Other" last) and the largest value the colors
+  // reach, so small multiples with shared scales can use the same ones
+  const local = useMemo(() => {
+    const rowCounts = d3.rollup(data, v => d3.sum(v, d => d.count), d => d.row);
+    const rows = Array.from(rowCounts.entries())
+      .filter(([r]) => r !== OTHER)
+      .sort((a, b) => b[1] - a[1])
+      .map(d => d[0])
+      .concat(rowCounts.has(OTHER) ? [OTHER] : []);
+    const decades = Array.from(new Set(data.map(d => d.decade))).sort((a, b) => a - b);
+    const max = mode === 'residual' ? d3.max(cells, d => Math.abs(d.value)) : d3.max(cells, d => d.value);
+    return { x: decades.map(String), y: rows, max: max ?? 0 };
+  }, [data, cells, mode]);
+
+  const facet = useFacet();
+  const domain = useFacetDomain(local);
+  const scalesRef = useRef<{ x: d3.ScaleBand<string>, y: d3.ScaleBand<string> } | null>(null);
+  const cellKey = (d: HeatmapData) => `${d.row}|${d.decade}`;
+
+  // residual cells of a row missing from a decade have no books
+  const statsOf = (cell: HeatmapData) => cellStats.get(cellKey(cell)) ?? emptyStats();
+
+  const cellTitle = (cell: HeatmapData) => `${cell.row} · ${cell.decade}s`;
+  const cellDetails = (cell: HeatmapData): [string, string][] =>
+    (mode === 'count' ? [] : [[HEATMAP_MODES[mode].label, HEATMAP_MODES[mode].format(cell.value)]]);
+  const cellLabel = (cell: HeatmapData) => describeMark(cellTitle(cell), cell.count, cellDetails(cell));
+
+  function cellContent(cell: HeatmapData): TooltipContent {
+    return {
+      title: cellTitle(cell),
+      summary: summarizeStats(statsOf(cell), decadeTotals.get(cell.decade) ?? 0),
+      shareLabel: `of the ${cell.decade}s`,
+      details: cellDetails(cell),
+      hint: filterKey
+        ? `Click to filter by ${label} and decade, shift+click to list the books`
+        : 'Click to filter by decade, shift+click to list the books',
+    };
+  }
 
   useEffect(() => {
-    if (isEmpty(data) || size.width === 0 || size.height === 0) return;
-    d3.select('#heatmap-svg').selectAll('*').remove();
+    if (!ready) return;
     drawChart();
-  }, [data, size]);
+  }, [cells, domain, frame, selectedRows, filters.yearRange, chart, palette, title, xLabel, yLabel, renderer]);
+
+  // outlines the cell hovered in any of the small multiples
+  useEffect(() => {
+    if (!facet || !scalesRef.current) return;
+    const { x, y } = scalesRef.current;
+    const [row, decade] = facet.hovered?.split('|') ?? [];
+    const visible = row !== undefined && x(decade) !== undefined && y(row) !== undefined;
+    ensureLayer<SVGRectElement>(d3.select(svgRef.current!), 'facet-hover', 'rect')
+      .attr('x', visible ? x(decade)! : 0)
+      .attr('y', visible ? y(row)! : 0)
+      .attr('width', x.bandwidth())
+      .attr('height', y.bandwidth())
+      .attr('fill', 'none')
+      .attr('stroke', chart.emphasis)
+      .attr('stroke-width', 2)
+      .attr('pointer-events', 'none')
+      .attr('visibility', visible ? 'visible' : 'hidden');
+  }, [facet?.hovered, domain, frame, chart]);
+
+  // clicking a cell selects its row and decade, clicking it again clears both;
+  // rows that cannot be filtered on only select the decade
+  function selectCell(cell: HeatmapData) {
+    const range = filters.yearRange;
+    const values = cell.row === OTHER ? [] : [cell.row];
+    const sameRange = range !== null && range[0] === cell.decade && range[1] === cell.decade + 9;
+    const yearRange: [number, number] = [cell.decade, cell.decade + 9];
+
+    if (!filterKey) {
+      dispatch({ type: FILTER_ACTIONS.SET_FILTERS, filters: { yearRange: sameRange ? null : yearRange } });
+      return;
+    }
+    const isCurrent = sameRange
+      && selectedRows.length === values.length && values.every(v => selectedRows.includes(v));
+
+    dispatch({
+      type: FILTER_ACTIONS.SET_FILTERS,
+      filters: isCurrent
+        ? { [filterKey]: [], yearRange: null }
+        : { [filterKey]: values, yearRange },
+    });
+  }
 
   function drawChart() {
-    const svg = d3.select('#heatmap-svg');
-    const w = size.width;
-    const h = size.height;
-
-    const leftMargin = margin.left * w;
-    const rightMargin = margin.right * w;
-    const topMargin = margin.top * h;
-    const bottomMargin = margin.bottom * h;
-
-    const genreCounts = d3.rollup(
-      data,
-      v => d3.sum(v, d => d.count),
-      d => d.genre
-    );
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const w = frame.width;
+    const h = frame.height;
 
-    const genres = Array.from(genreCounts.entries())
-      .filter(([g]) => g !== 'Other')
-      .sort((a, b) => b[1] - a[1])
-      .map(d => d[0])
-      .concat(genreCounts.has('Other') ? ['Other'] : []);
+    const leftMargin = frame.left;
+    const topMargin = frame.top;
+    const bottomMargin = h - frame.bottom;
 
-    const decades = Array.from(new Set(data.map(d => d.decade))).sort((a, b) => a - b);
+    const rows = domain.y;
+    const decades = domain.x.map(Number).sort((a, b) => a - b);
 
     const x = d3.scaleBand()
       .domain(decades.map(String))
-      .range([leftMargin, w - rightMargin])
+      .range([leftMargin, frame.right])
       .padding(0.05);
 
     const y = d3.scaleBand()
-      .domain(genres)
-      .range([topMargin, h - bottomMargin])
+      .domain(rows)
+      .range([topMargin, frame.bottom])
       .padding(0.05);
-
-    const maxCount = d3.max(data, d => d.count) || 1;
-    const color = d3.scaleSequential(d3.interpolateBlues)
-      .domain([0, maxCount]);
-    const maxByDecade = d3.rollup(
-      data.filter(d => d.genre !== 'Other'),
-      v => d3.max(v, d => d.count)!,
-      d => d.decade
+    scalesRef.current = { x, y };
+
+    // residuals diverge around 0 (the warm end for more than expected), the other modes start at 0
+    const { format, legend: legendLabel, outline } = HEATMAP_MODES[mode];
+    const extent = domain.max || 1;
+    const [low, high] = mode === 'residual' ? [-extent, extent] : [0, extent];
+    const color = mode === 'residual'
+      ? d3.scaleDiverging(palette?.diverging ?? chart.diverging).domain([low, 0, high])
+      : d3.scaleSequential(palette?.sequential ?? chart.sequential).domain([low, high]);
+    // the outline marks the largest cell of each decade, or of each row for the genre share
+    const byRow = mode === 'genreShare';
+    const maxByGroup = d3.rollup(
+      cells.filter(d => d.row !== OTHER),
+      v => d3.max(v, d => d.value)!,
+      d => (byRow ? d.row : d.decade)
     );
 
+    const t = svg.transition().duration(TRANSITION_MS);
+    const isDominant = (d: HeatmapData) => d.row !== OTHER && d.value === maxByGroup.get(byRow ? d.row : d.decade);
+
     // background
-    svg.append('rect')
+    ensureLayer<SVGRectElement>(svg, 'background', 'rect')
       .attr('width', w)
       .attr('height', h)
-      .attr('fill', '#f5f5f5');
+      .attr('fill', chart.background);
 
-    // heatmap cells
-    svg.append('g')
-      .selectAll('rect')
-      .data(data)
-      .join('rect')
+    // a decade is highlighted when it overlaps the selected years
+    const range = filters.yearRange;
+    const inRange = (decade: number) => !range || (decade + 9 >= range[0] && decade <= range[1]);
+
+    const clickCell = (event: MouseEvent, d: HeatmapData) => {
+      if (event.shiftKey) lookup(statsOf(d).ids).then(books => openDrillDown(`${d.row} · ${d.decade}s`, books));
+      else selectCell(d);
+    };
+    const cellsLayer = ensureLayer(svg, 'cells');
+    // stands in for the canvas cells when they get keyboard focus
+    const focusLayer = ensureLayer(svg, 'cell-focus');
+
+    // many cells are drawn on the canvas instead, outlined cells last so they stay on top
+    const canvasMode = usesCanvas(renderer, cells.length);
+    if (canvasMode) {
+      cellsLayer.selectAll('rect').remove();
+      const marks = cells
+        .map((d): CanvasMark<HeatmapData> => ({
+          shape: 'rect',
+          datum: d,
+          x: x(String(d.decade))!,
+          y: y(d.row)!,
+          width: x.bandwidth(),
+          height: y.bandwidth(),
+          fill: color(d.value),
+          stroke: isDominant(d) ? chart.emphasis : chart.grid,
+          strokeWidth: isDominant(d) ? 2.5 : 1,
+          opacity: inRange(d.decade) ? 1 : 0.3,
+        }))
+        .sort((a, b) => d3.ascending(isDominant(a.datum), isDominant(b.datum)));
+      drawCanvasMarks(canvasRef.current!, w, h, marks);
+      attachCanvasInteraction(svg, canvasHitTester(marks), {
+        show: (event, d) => {
+          tooltipHandlers.show(event, cellContent(d));
+          facet?.setHovered(cellKey(d));
+        },
+        move: tooltipHandlers.move,
+        hide: () => {
+          tooltipHandlers.hide();
+          facet?.setHovered(null);
+        },
+        click: clickCell,
+      });
+      attachCanvasFocus(focusLayer, marks, {
+        position: d => ({ row: rows.indexOf(d.row), col: decades.indexOf(d.decade) }),
+        label: cellLabel,
+        show: (event, d) => {
+          tooltipHandlers.show(event, cellContent(d));
+          facet?.setHovered(cellKey(d));
+        },
+        hide: () => {
+          tooltipHandlers.hide();
+          facet?.setHovered(null);
+        },
+        click: clickCell,
+      });
+    } else {
+      clearCanvas(canvasRef.current!);
+      attachCanvasInteraction(svg, null);
+      attachCanvasFocus(focusLayer, null);
+    }
+
+    // heatmap cells, keyed by row and decade so colors tween between states
+    cellsLayer
+      .selectAll<SVGRectElement, HeatmapData>('rect')
+      .data(canvasMode ? [] : cells, cellKey)
+      .join(
+        enter => enter.append('rect')
+          .attr('x', d => x(String(d.decade))!)
+          .attr('y', d => y(d.row)!)
+          .attr('width', x.bandwidth())
+          .attr('height', y.bandwidth())
+          .attr('fill', color(0))
+          .attr('opacity', 0),
+        update => update,
+        exit => exit.transition(t)
+          .attr('opacity', 0)
+          .remove()
+      )
+      .style('cursor', 'pointer')
+      .on('click', clickCell)
+      .call(rect => attachTooltip(rect, tooltipHandlers, cellContent, cellLabel))
+      .on('mouseenter.facet', (_, d) => facet?.setHovered(cellKey(d)))
+      .on('mouseleave.facet', () => facet?.setHovered(null))
+      .call(rect => setGridPosition(rect, d => rows.indexOf(d.row), d => decades.indexOf(d.decade)))
+      .transition(t)
       .attr('x', d => x(String(d.decade))!)
-      .attr('y', d => y(d.genre)!)
+      .attr('y', d => y(d.row)!)
       .attr('width', x.bandwidth())
       .attr('height', y.bandwidth())
-      .attr('fill', d => color(d.count))
-      .attr('stroke', d =>
-        d.genre !== 'Other' && d.count === maxByDecade.get(d.decade)
-          ? '#000'
-          : '#ccc'
-      )
-      .attr('stroke-width', d =>
-        d.genre !== 'Other' && d.count === maxByDecade.get(d.decade)
-          ? 2.5
-          : 1
-      );
+      .attr('fill', d => color(d.value))
+      .attr('stroke', d => (isDominant(d) ? chart.emphasis : chart.grid))
+      .attr('stroke-width', d => (isDominant(d) ? 2.5 : 1))
+      .attr('opacity', d => (inRange(d.decade) ? 1 : 0.3));
+    enableKeyboardNavigation(cellsLayer);
 
     // x
-    svg.append('g')
+    ensureLayer(svg, 'x-axis')
       .attr('transform', `translate(0,${h - bottomMargin})`)
+      .transition(t)
       .call(d3.axisBottom(x))
       .selectAll('text')
       .attr('transform', 'rotate(-45)')
       .style('text-anchor', 'end');
 
     // y
-    svg.append('g')
+    ensureLayer(svg, 'y-axis')
       .attr('transform', `translate(${leftMargin},0)`)
+      .transition(t)
       .call(d3.axisLeft(y));
 
     // x label
-    svg.append('text')
-      .attr('x', leftMargin + (w - leftMargin - rightMargin) / 2)
+    ensureLayer<SVGTextElement>(svg, 'x-label', 'text')
+      .attr('x', leftMargin + frame.innerWidth / 2)
       .attr('y', h - bottomMargin + bottomMargin*0.5)
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.018 * w}px`)
-      .text('Publication Decade');
+      .text(xLabel);
 
     // y label
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'y-label', 'text')
       .attr(
         'transform',
-        `translate(${leftMargin - leftMargin*0.8}, ${topMargin + (h - topMargin - bottomMargin) / 2}) rotate(-90)`
+        `translate(${leftMargin - leftMargin*0.8}, ${topMargin + frame.innerHeight / 2}) rotate(-90)`
       )
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.018 * w}px`)
-      .text('Counts of Genre');
+      .text(yLabel ?? `Counts of ${rowDimension.label}`);
 
     // title
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'title', 'text')
       .attr('x', w / 2)
       .attr('y', topMargin / 2)
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.025 * w}px`)
       .style('font-weight', 'bold')
-      .text('Trends in Top 20 Genres of Top 1000 Swapped Book Publications');
+      .text(title ?? `Trends in Top ${maxRows} ${row === 'genre' ? 'Genres' : `${rowDimension.label} Values`} of Top 1000 Swapped Book Publications`);
 
     // color lengend
     const legendWidth = 0.3 * w;
     const legendHeight = 0.015 * h;
     const legendY = h - bottomMargin + 0.2 * h;
 
-    const legendScale = d3.scaleLinear().domain([0, maxCount]).range([0, legendWidth]);
-    const legend = svg.append('g')
+    const legend = ensureLayer(svg, 'color-legend')
       .attr('transform', `translate(${w/2 - legendWidth - 0.05*w}, ${legendY+0.04*h})`);
 
-    const legendStops = d3.range(0, maxCount + 1, Math.max(1, Math.floor(maxCount/10)));
+    const legendStops = d3.range(11).map(i => low + ((high - low) * i) / 10);
     legend.selectAll('rect')
       .data(legendStops)
       .join('rect')
-      .attr('x', d => legendScale(d))
+      .attr('x', (_, i) => (i * legendWidth) / legendStops.length)
       .attr('width', legendWidth / legendStops.length)
       .attr('height', legendHeight)
+      .transition(t)
       .attr('fill', d => color(d));
 
-    legend.append('text')
-      .attr('x', 0)
+    legend.selectAll('text.legend-value')
+      .data([low, high])
+      .join('text')
+      .attr('class', 'legend-value')
+      .attr('x', (_, i) => i * legendWidth)
       .attr('y', -0.01*h)
+      .attr('text-anchor', (_, i) => (i === 0 ? 'start' : 'end'))
       .style('font-size', `${0.013*w}px`)
-      .text('Low');
+      .text(d => format(d));
 
-    legend.append('text')
-      .attr('x', legendWidth)
-      .attr('y', -0.01*h)
+    ensureLayer<SVGTextElement>(legend, 'legend-label', 'text')
+      .attr('x', legendWidth / 2)
+      .attr('y', legendHeight + 0.03*h)
+      .attr('text-anchor', 'middle')
       .style('font-size', `${0.013*w}px`)
-      .attr('text-anchor', 'end')
-      .text('High');
+      .text(legendLabel(label));
 
-    const outlineLegend = svg.append('g')
+    const outlineLegend = ensureLayer(svg, 'outline-legend')
       .attr('transform', `translate(${w/2 + 0.05*w}, ${legendY})`);
     const boxSize = 0.018*w;
 
-    outlineLegend.append('rect')
+    ensureLayer<SVGRectElement>(outlineLegend, 'outline-box', 'rect')
       .attr('width', boxSize)
       .attr('height', boxSize)
       .attr('fill', 'none')
-      .attr('stroke', '#000')
+      .attr('stroke', chart.emphasis)
       .attr('stroke-width', 0.006*w);
 
-    outlineLegend.append('text')
+    ensureLayer<SVGTextElement>(outlineLegend, 'outline-text', 'text')
       .attr('x', boxSize + 0.01*w)
       .attr('y', boxSize*0.8)
       .style('font-size', `${0.013*w}px`)
-      .text('Most dominant Top-20 genre in each decade');
+      .text(outline(label, maxRows));
   }
 
   return (
-    <div ref={heatmapRef} style={{ width: '100%', height: '100%' }}>
-      <svg id="heatmap-svg" width="100%" height="100%" />
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {showControls && <HeatmapModeToggle />}
+      <div ref={containerRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width="100%"
+          height="100%"
+          role='group'
+          aria-label={chartLabel(`Books by ${label} and decade`, 'cells')}
+        />
+        <canvas ref={canvasRef} className='chart-canvas' aria-hidden style={CANVAS_STYLE} />
+        <ChartDataTable
+          caption={`Books by ${label} and decade`}
+          columns={[
+            { label: rowDimension.label, value: d => d.row },
+            { label: 'Decade', value: d => `${d.decade}s` },
+            { label: 'Books', value: d => d.count },
+            ...(mode === 'count' ? [] : [{ label: HEATMAP_MODES[mode].label, value: (d: HeatmapData) => HEATMAP_MODES[mode].format(d.value) }]),
+          ]}
+          rows={cells}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu svgRef={svgRef} fileName={`${row}-decade-heatmap`.replace(/[^\w-]+/g, '_')} rows={cells} />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';  
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import {
   sankey as d3Sankey,
@@ -6,10 +6,27 @@ import {
   SankeyNode,
   SankeyLink,
 } from 'd3-sankey';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { useView } from '../stores/ViewContext';
+import { getDimension, OTHER } from '../utils/dimensions';
+import { mergeStats, totalsBy, RollupRow, RollupStats } from '../utils/rollup';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import ChartDataTable from './ChartDataTable';
+import { summarizeStats } from '../utils/summary';
+import { useBooks } from '../stores/BookDataContext';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import { useDrillDown } from '../stores/DrillDownContext';
+import SankeyLayerEditor from './SankeyLayerEditor';
+import { Box } from '@mui/material';
+import ExportMenu from './ExportMenu';
+import { useChartTheme, useCategoryColor } from '../stores/ThemeContext';
 
 interface MyNode {
+  // unique across layers, the same value (e.g. "Other") may appear in several
+  id: string;
   name: string;
-  layer: number; 
+  layer: number;
 }
 
 interface MyLink {
@@ -18,16 +35,28 @@ interface MyLink {
   value: number;
 }
 
+type LayoutNode = SankeyNode<MyNode, MyLink>;
+type LayoutLink = SankeyLink<LayoutNode, MyLink>;
+
+const nodeId = (layer: number, name: string) => `${layer}|||${name}`;
+
 export default function SankeyChart() {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
-  const [nodeData, setNodeData] = useState<MyNode[]>([]);
-  const [linkData, setLinkData] = useState<MyLink[]>([]);
+  const { getBooks } = useBooks();
+  const { filters, dispatch } = useFilters();
+  const { view } = useView();
+  const { chart } = useChartTheme();
+  const categoryColor = useCategoryColor();
+  const { tooltip, ...tooltipHandlers } = useTooltip();
+  const { openDrillDown } = useDrillDown();
   const [size, setSize] = useState({ width: 0, height: 0 });
 
   const margin = { top: 0.2, right: 0.05, bottom: 0.05, left: 0.05 };
-  const layerNames = ['Genre', 'Age Category', 'Movie Adaptation', 'Bestseller Status'];
+  const { layers, topN } = view.sankey;
+  const dimensions = layers.map(getDimension);
+  const layerNames = useMemo(() => dimensions.map(d => d.label), [layers]);
 
   useEffect(() => {
     const resizeObserver = new ResizeObserver(entries => {
@@ -45,104 +74,150 @@ export default function SankeyChart() {
     return () => resizeObserver.disconnect();
   }, []);
 
-  useEffect(() => {
-    const loadData = async () => {
-      const rawData = await d3.csv('../../data/top_1000_most_swapped_books.csv');
-      if (!rawData || rawData.length === 0) return;
-
-      const genreCounts = d3.rollup(rawData, v => v.length, d => d.genre as string);
-      const topGenres = Array.from(genreCounts.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 10)
-        .map(d => d[0]);
-
-      const nodeMap = new Map<string, MyNode>();
-      const linkMap = new Map<string, number>();
-
-      const addNode = (name: string, layer: number) => {
-        if (!nodeMap.has(name)) nodeMap.set(name, { name, layer });
-      };
-
-      const addLink = (source: string, target: string) => {
-        const key = `${source}|||${target}`;
-        linkMap.set(key, (linkMap.get(key) ?? 0) + 1);
-      };
-
-      rawData.forEach(d => {
-        const genre = d.genre as string;
-        if (!topGenres.includes(genre)) return;
-
-        const age = d.age_category as string;
-        const isBestseller = String(d.bestseller_status).toLowerCase() === 'true';
-        const isMovie = String(d.adapted_to_movie).toLowerCase() === 'true';
-
-        const bestsellerStatus = isBestseller ? 'Bestseller' : 'Not Bestseller';
-        const movieStatus = isMovie ? 'Adapted To Movie' : 'Not Adapted To Movie';
-
-        addNode(genre, 0);
-        addNode(age, 1);
-        addNode(movieStatus, 2);
-        addNode(bestsellerStatus, 3);
-
-        addLink(genre, age);
-        addLink(age, movieStatus);
-        addLink(movieStatus, bestsellerStatus);
-      });
-
-      setNodeData(Array.from(nodeMap.values()));
-      setLinkData(
-        Array.from(linkMap.entries()).map(([key, value]) => {
-          const [source, target] = key.split('|||');
-          return { source, target, value };
-        })
+  // books per combination of layer values, summed in the worker
+  const totals = useRollup(layers);
+
+  // the books behind each node and link, for the tooltips and drill-downs
+  const { nodeData, linkData, nodeStats, linkStats, total } = useMemo(() => {
+    // the values each layer keeps, the rest is folded into "Other"; null keeps all
+    const kept = layers.map((_, layer) => {
+      const counts = totalsBy(totals, layer);
+      if (topN <= 0 || counts.size <= topN) return null;
+      return new Set(
+        Array.from(counts)
+          .sort((a, b) => b[1] - a[1] || d3.ascending(a[0], b[0]))
+          .slice(0, topN)
+          .map(d => d[0])
       );
+    });
+    const nodeName = (layer: number, value: string) => (!kept[layer] || kept[layer].has(value) ? value : OTHER);
+
+    const nodeMap = new Map<string, MyNode>();
+    const nodeRows = new Map<string, RollupRow[]>();
+    const linkRows = new Map<string, RollupRow[]>();
+
+    const addRow = (rows: Map<string, RollupRow[]>, key: string, row: RollupRow) => {
+      if (!rows.has(key)) rows.set(key, []);
+      rows.get(key)!.push(row);
     };
 
-    loadData();
-  }, []);
+    const addNode = (name: string, layer: number, row: RollupRow) => {
+      const id = nodeId(layer, name);
+      if (!nodeMap.has(id)) nodeMap.set(id, { id, name, layer });
+      addRow(nodeRows, id, row);
+      return id;
+    };
+
+    totals.forEach(row => {
+      const path = row.keys.map((value, layer) => addNode(nodeName(layer, value), layer, row));
+      path.forEach((id, layer) => {
+        if (layer > 0) addRow(linkRows, `${path[layer - 1]}>>>${id}`, row);
+      });
+    });
+
+    const merged = (rows: Map<string, RollupRow[]>) =>
+      new Map(Array.from(rows, ([key, group]): [string, RollupStats] => [key, mergeStats(group)]));
+    const linkStats = merged(linkRows);
+
+    return {
+      nodeData: Array.from(nodeMap.values()),
+      linkData: Array.from(linkStats, ([key, stats]): MyLink => {
+        const [source, target] = key.split('>>>');
+        return { source, target, value: stats.value };
+      }),
+      nodeStats: merged(nodeRows),
+      linkStats,
+      total: d3.sum(totals, d => d.value),
+    };
+  }, [totals, layers, topN]);
+
+  // flat links for the csv export, the json export also carries the nodes
+  const exportRows = useMemo(() => {
+    const nodes = new Map(nodeData.map(d => [d.id, d]));
+    return linkData.map(d => ({
+      source: nodes.get(d.source)!.name,
+      source_layer: layerNames[nodes.get(d.source)!.layer],
+      target: nodes.get(d.target)!.name,
+      target_layer: layerNames[nodes.get(d.target)!.layer],
+      value: d.value,
+    }));
+  }, [nodeData, linkData, layerNames]);
+
+  const statsAt = (node: LayoutNode) => nodeStats.get(node.id)!;
+
+  // "Other" stands for many values and cannot be filtered on
+  function toggleNodeFilter(node: LayoutNode) {
+    const toggle = dimensions[node.layer].toggleFilter;
+    if (toggle && node.name !== OTHER) dispatch(toggle(node.name, filters));
+  }
+
+  const nodeTitle = (node: LayoutNode) => `${layerNames[node.layer]}: ${node.name}`;
+
+  function nodeContent(node: LayoutNode): TooltipContent {
+    return {
+      title: nodeTitle(node),
+      summary: summarizeStats(statsAt(node), total),
+      shareLabel: 'of all books shown',
+      hint: 'Click to filter, shift+click to list the books',
+    };
+  }
+
+  const linkTitle = (link: LayoutLink) =>
+    `${(link.source as LayoutNode).name} → ${(link.target as LayoutNode).name}`;
+  const linkStatsOf = (link: LayoutLink) =>
+    linkStats.get(`${(link.source as LayoutNode).id}>>>${(link.target as LayoutNode).id}`)!;
+
+  const listBooks = (title: string, stats: RollupStats) => getBooks(stats.ids).then(books => openDrillDown(title, books));
+
+  function linkContent(link: LayoutLink): TooltipContent {
+    const source = link.source as LayoutNode;
+    return {
+      title: linkTitle(link),
+      summary: summarizeStats(linkStatsOf(link), statsAt(source).value),
+      shareLabel: `of ${source.name}`,
+      hint: 'Click to list the books',
+    };
+  }
 
   useEffect(() => {
-    if (!nodeData.length || !linkData.length) return;
     if (!size.width || !size.height) return;
 
-    const svg = d3.select(svgRef.current!);
-    svg.selectAll('*').remove();
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const t = svg.transition().duration(TRANSITION_MS);
 
     const widthInner = size.width * (1 - margin.left - margin.right);
     const heightInner = size.height * (1 - margin.top - margin.bottom);
 
     const sankey = d3Sankey<MyNode, MyLink>()
-      .nodeId(d => d.name)
+      .nodeId(d => d.id)
       .nodeAlign(d => d.layer)
       .nodeWidth(18)
       .nodePadding(14)
       .extent([[0, 0], [widthInner, heightInner]]);
 
+    // d3-sankey cannot lay out an empty graph, so filters that remove every
+    // book fall through with no nodes and let the exit transitions run
     const { nodes, links }: {
-      nodes: SankeyNode<MyNode, MyLink>[];
-      links: SankeyLink<SankeyNode<MyNode, MyLink>, MyLink>[];
-    } = sankey({
-      nodes: nodeData.map(d => ({ ...d })),
-      links: linkData.map(d => ({ ...d })),
-    });
-
-    const g = svg
-      .append('g')
+      nodes: LayoutNode[];
+      links: LayoutLink[];
+    } = nodeData.length && linkData.length
+      ? sankey({
+        nodes: nodeData.map(d => ({ ...d })),
+        links: linkData.map(d => ({ ...d })),
+      })
+      : { nodes: [], links: [] };
+
+    const g = ensureLayer(svg, 'sankey')
       .attr('transform', `translate(${size.width * margin.left}, ${size.height * margin.top})`);
 
-    const myColors = [
-      '#1466a1', '#4daaed', '#119667', '#7cc37c',
-      '#a0dba0', '#aeddff', '#1fa284', '#55ecc8',
-      '#91c1b6', '#a3de79'
-    ];
-
+    // a value has the same color as in the other charts, whichever layer it is in
     const nodeColorMap = new Map<string, string>();
-    nodes.forEach((node, i) => {
-      nodeColorMap.set(node.name, myColors[i % myColors.length]);
+    nodes.forEach(node => {
+      nodeColorMap.set(node.id, categoryColor(layers[node.layer], node.name));
     });
 
     // title
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'title', 'text')
       .attr('x', size.width / 2)
       .attr('y', size.height * margin.top / 2)
       .attr('text-anchor', 'middle')
@@ -150,59 +225,141 @@ export default function SankeyChart() {
       .style('font-weight', 'bold')
       .text('Top 1000 Swapped Books Sankey Diagram');
 
-    // links
-    g.append('g')
+    const sourceId = (d: LayoutLink) => (d.source as LayoutNode).id;
+    const targetId = (d: LayoutLink) => (d.target as LayoutNode).id;
+
+    // top to bottom position of a node within its layer, and of a link among those leaving the same layer
+    const nodeRow = new Map(d3.groups(nodes, d => d.layer)
+      .flatMap(([, layerNodes]) => layerNodes.sort((a, b) => a.y0! - b.y0!).map((d, i) => [d.id, i] as const)));
+    const linkRow = new Map(d3.groups(links, d => (d.source as LayoutNode).layer)
+      .flatMap(([, layerLinks]) => layerLinks
+        .sort((a, b) => (a.source as LayoutNode).y0! - (b.source as LayoutNode).y0! || a.y0! - b.y0!)
+        .map((d, i) => [`${sourceId(d)}>>>${targetId(d)}`, i] as const)));
+
+    // links, keyed by their end points so widths morph between filter states
+    const linksLayer = ensureLayer(g, 'links');
+    linksLayer
       .attr('fill', 'none')
       .attr('stroke-opacity', 0.35)
-      .selectAll('path')
-      .data(links)
-      .join('path')
+      .selectAll<SVGPathElement, LayoutLink>('path')
+      .data(links, d => `${sourceId(d)}>>>${targetId(d)}`)
+      .join(
+        enter => enter.append('path')
+          .attr('d', sankeyLinkHorizontal())
+          .attr('stroke', d => nodeColorMap.get(sourceId(d))!)
+          .attr('stroke-width', 0),
+        update => update,
+        exit => exit.transition(t)
+          .attr('stroke-width', 0)
+          .remove()
+      )
+      .style('cursor', 'pointer')
+      .on('click', (_, d) => listBooks(linkTitle(d), linkStatsOf(d)))
+      .call(path => attachTooltip(path, tooltipHandlers, linkContent, d => describeMark(linkTitle(d), d.value)))
+      .call(path => setGridPosition(path, d => linkRow.get(`${sourceId(d)}>>>${targetId(d)}`)!, d => (d.source as LayoutNode).layer))
+      .transition(t)
       .attr('d', sankeyLinkHorizontal())
-      .attr('stroke', d => nodeColorMap.get((d.source as SankeyNode<MyNode, MyLink>).name)!)
+      .attr('stroke', d => nodeColorMap.get(sourceId(d))!)
       .attr('stroke-width', d => Math.max(1, d.width ?? 1));
 
     // nodes
-    const nodeG = g
-      .append('g')
-      .selectAll('g')
-      .data(nodes)
-      .join('g')
-      .attr('transform', d => `translate(${d.x0},${d.y0})`);
-
-    nodeG.append('rect')
+    const nodesLayer = ensureLayer(g, 'nodes');
+    const nodeG = nodesLayer
+      .selectAll<SVGGElement, LayoutNode>('g')
+      .data(nodes, d => d.id)
+      .join(
+        enter => {
+          const node = enter.append('g')
+            .attr('transform', d => `translate(${d.x0},${d.y0})`)
+            .attr('opacity', 0);
+          node.append('rect')
+            .attr('width', d => d.x1! - d.x0!)
+            .attr('height', d => d.y1! - d.y0!)
+            .style('cursor', 'pointer');
+          node.append('text')
+            .attr('text-anchor', 'middle')
+            .attr('dominant-baseline', 'middle')
+            .style('pointer-events', 'none');
+          return node;
+        },
+        update => update,
+        exit => exit.transition(t)
+          .attr('opacity', 0)
+          .remove()
+      );
+
+    nodeG.transition(t)
+      .attr('transform', d => `translate(${d.x0},${d.y0})`)
+      .attr('opacity', 1);
+
+    nodeG.select<SVGRectElement>('rect')
+      .attr('stroke', chart.outline)
+      .on('click', (event: MouseEvent, d) => {
+        if (event.shiftKey) listBooks(nodeTitle(d), statsAt(d));
+        else toggleNodeFilter(d);
+      })
+      .call(rect => attachTooltip(rect, tooltipHandlers, nodeContent, d => describeMark(nodeTitle(d), d.value ?? 0)))
+      .call(rect => setGridPosition(rect, d => nodeRow.get(d.id)!, d => d.layer))
+      .transition(t)
       .attr('width', d => d.x1! - d.x0!)
       .attr('height', d => d.y1! - d.y0!)
-      .attr('fill', d => nodeColorMap.get(d.name)!)
-      .attr('stroke', '#333');
+      .attr('fill', d => nodeColorMap.get(d.id)!);
 
-    nodeG.append('text')
-      .attr('x', d => (d.x1! - d.x0!) / 2)
-      .attr('y', d => (d.y1! - d.y0!) / 2)
-      .attr('text-anchor', 'middle')
-      .attr('dominant-baseline', 'middle')
+    nodeG.select<SVGTextElement>('text')
       .style('font-size', `${0.01 * size.width}px`)
-      .style('pointer-events', 'none')
-      .text(d => d.name);
+      .text(d => d.name)
+      .transition(t)
+      .attr('x', d => (d.x1! - d.x0!) / 2)
+      .attr('y', d => (d.y1! - d.y0!) / 2);
+
+    enableKeyboardNavigation(nodesLayer);
+    enableKeyboardNavigation(linksLayer);
 
     // label for each nodes
-    layerNames.forEach((layerName, i) => {
-      g.append('text')
-        .attr('x', d3.mean(nodes.filter(n => n.layer === i), n => n.x0!) ?? (i * 200))
-        .attr('y', -10)
-        .attr('text-anchor', 'middle')
-        .style('font-size', `${0.018 * size.width}px`)
-        .style('font-weight', 'none')
-        .text(layerName);
-    });
+    ensureLayer(g, 'layer-labels')
+      .selectAll('text')
+      .data(layerNames)
+      .join('text')
+      .attr('y', -10)
+      .attr('text-anchor', 'middle')
+      .style('font-size', `${0.018 * size.width}px`)
+      .style('font-weight', 'none')
+      .text(d => d)
+      .transition(t)
+      .attr('x', (_, i) => d3.mean(nodes.filter(n => n.layer === i), n => n.x0!) ?? (i * 200));
 
-  }, [nodeData, linkData, size]);
+  }, [nodeData, linkData, layers, size, filters, chart, categoryColor]);
 
   return (
-    <div
-      ref={containerRef}
-      style={{ width: '100%', height: '80vh', boxSizing: 'border-box' }}
-    >
-      <svg ref={svgRef} width="100%" height="100%" />
+    <div style={{ width: '100%', height: '100%', boxSizing: 'border-box', display: 'flex', flexDirection: 'column' }}>
+      <SankeyLayerEditor />
+      <div ref={containerRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width="100%"
+          height="100%"
+          role='group'
+          aria-label={chartLabel(`Book flows across ${layerNames.join(', ')}`, 'nodes or links')}
+        />
+        <ChartDataTable
+          caption={`Book flows across ${layerNames.join(', ')}`}
+          columns={[
+            { label: 'From', value: d => `${d.source_layer}: ${d.source}` },
+            { label: 'To', value: d => `${d.target_layer}: ${d.target}` },
+            { label: 'Books', value: d => d.value },
+          ]}
+          rows={exportRows}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu
+            svgRef={svgRef}
+            fileName='sankey'
+            rows={exportRows}
+            json={{ layers: layerNames, nodes: nodeData, links: linkData }}
+          />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
     </div>
   );
 }
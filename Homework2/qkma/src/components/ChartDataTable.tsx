@@ -0,0 +1,28 @@
+import React from 'react';
+import { visuallyHidden } from '../utils/a11y';
+
+export interface DataTableColumn<R> {
+  label: string;
+  value: (row: R) => string | number;
+}
+
+// The chart's data as a plain table for screen readers, hidden on screen.
+export default function ChartDataTable<R>({ caption, columns, rows }: {
+  caption: string,
+  columns: DataTableColumn<R>[],
+  rows: R[],
+}) {
+  return (
+    <table style={visuallyHidden}>
+      <caption>{caption}</caption>
+      <thead>
+        <tr>{columns.map(c => <th key={c.label} scope='col'>{c.label}</th>)}</tr>
+      </thead>
+      <tbody>
+        {rows.map((row, i) => (
+          <tr key={i}>{columns.map(c => <td key={c.label}>{c.value(row)}</td>)}</tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import * as d3 from 'd3';
+import { Paper, Typography, Divider } from '@mui/material';
+import { BookSummary } from '../utils/summary';
+import { visuallyHidden } from '../utils/a11y';
+import { useBooks, BookLookup } from '../stores/BookDataContext';
+import { isAbortError } from '../workers/client';
+
+export interface TooltipContent {
+  title: string;
+  summary: BookSummary;
+  // what the share is relative to, e.g. "of Fantasy"
+  shareLabel: string;
+  // chart specific label/value pairs shown after the summary
+  details?: [string, string][];
+  // how to interact with the mark, shown below the numbers
+  hint?: string;
+}
+
+interface TooltipState {
+  content: TooltipContent | null;
+  x: number;
+  y: number;
+  // read out by the live region when a mark gets keyboard focus
+  announcement: string;
+  // of the summary's top books, empty until they are fetched
+  topTitles: string[];
+}
+
+export interface TooltipHandlers {
+  show: (event: MouseEvent | FocusEvent, content: TooltipContent) => void;
+  move: (event: MouseEvent) => void;
+  hide: () => void;
+}
+
+const OFFSET = 14;
+const EMPTY_TOOLTIP: TooltipState = { content: null, x: 0, y: 0, announcement: '', topTitles: [] };
+const percent = d3.format('.1%');
+const rating = d3.format('.2f');
+
+// The tooltip as one sentence, read out when a mark gets keyboard focus.
+export function describeContent({ title, summary, shareLabel, details }: TooltipContent) {
+  const parts = [`${summary.count} books`, `${percent(summary.share)} ${shareLabel}`];
+  if (summary.averageRating !== undefined) parts.push(`average rating ${rating(summary.averageRating)}`);
+  details?.forEach(([label, value]) => parts.push(`${label} ${value}`));
+  return `${title}: ${parts.join(', ')}`;
+}
+
+// A mark's label from what it already holds, e.g. "Fantasy · 1990s: 12 books, Median 4.10";
+// cheap enough for every mark, unlike the tooltip's summary.
+export function describeMark(title: string, count: number, details: [string, string][] = []) {
+  return [`${title}: ${count} ${count === 1 ? 'book' : 'books'}`, ...details.map(([label, value]) => `${label} ${value}`)].join(', ');
+}
+
+// Pointer events place the tooltip at the cursor, focus events next to the focused mark.
+function anchorOf(event: MouseEvent | FocusEvent) {
+  if (event instanceof MouseEvent) return { x: event.clientX, y: event.clientY };
+  const rect = (event.target as Element).getBoundingClientRect();
+  return { x: rect.right, y: rect.top };
+}
+
+// `lookup` finds the top books' titles, in the worker unless the chart draws books of its own.
+export function useTooltip(lookup?: BookLookup): { tooltip: TooltipState } & TooltipHandlers {
+  const { getBooks } = useBooks();
+  const findBooks = lookup ?? getBooks;
+  const [tooltip, setTooltip] = useState<TooltipState>(EMPTY_TOOLTIP);
+  const titlesRequest = useRef<AbortController | null>(null);
+
+  const show = useCallback((event: MouseEvent | FocusEvent, content: TooltipContent) => {
+    const announcement = event instanceof FocusEvent ? describeContent(content) : '';
+    setTooltip({ content, ...anchorOf(event), announcement, topTitles: [] });
+
+    titlesRequest.current?.abort();
+    if (content.summary.topIds.length === 0) return;
+    const controller = new AbortController();
+    titlesRequest.current = controller;
+    findBooks(content.summary.topIds, controller.signal)
+      .then(books => {
+        if (controller.signal.aborted) return;
+        setTooltip(prev => (prev.content === content ? { ...prev, topTitles: books.map(d => d.title) } : prev));
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Error fetching the top books:', error);
+      });
+  }, [findBooks]);
+  const move = useCallback((event: MouseEvent) => {
+    setTooltip(prev => (prev.content ? { ...prev, x: event.clientX, y: event.clientY } : prev));
+  }, []);
+  const hide = useCallback(() => {
+    titlesRequest.current?.abort();
+    setTooltip(EMPTY_TOOLTIP);
+  }, []);
+
+  return { tooltip, show, move, hide };
+}
+
+// Shows the tooltip on hover and focus and labels every mark in `selection` for
+// screen readers. Focus itself is handled by `enableKeyboardNavigation`. The
+// content is only built for the mark being shown, `label` runs for all of them.
+export function attachTooltip<D>(
+  selection: d3.Selection<SVGElement, D, d3.BaseType, unknown>,
+  handlers: TooltipHandlers,
+  content: (d: D) => TooltipContent,
+  label: (d: D) => string,
+) {
+  selection
+    .attr('role', 'button')
+    .attr('aria-label', label)
+    .on('mouseenter focus', (event: MouseEvent | FocusEvent, d) => handlers.show(event, content(d)))
+    .on('mousemove', (event: MouseEvent) => handlers.move(event))
+    .on('mouseleave blur', () => handlers.hide());
+}
+
+export default function ChartTooltip({ tooltip }: { tooltip: TooltipState }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // keep the box inside the viewport, flipping to the other side of the pointer when needed
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const { width, height } = el.getBoundingClientRect();
+    const left = tooltip.x + OFFSET + width > window.innerWidth ? tooltip.x - OFFSET - width : tooltip.x + OFFSET;
+    const top = tooltip.y + OFFSET + height > window.innerHeight ? tooltip.y - OFFSET - height : tooltip.y + OFFSET;
+    el.style.left = `${Math.max(0, left)}px`;
+    el.style.top = `${Math.max(0, top)}px`;
+  }, [tooltip]);
+
+  const liveRegion = <div aria-live='polite' style={visuallyHidden}>{tooltip.announcement}</div>;
+  if (!tooltip.content) return liveRegion;
+  const { title, summary, shareLabel, details, hint } = tooltip.content;
+  const { topTitles } = tooltip;
+
+  return <>
+    {liveRegion}
+    {createPortal(
+    <Paper
+      ref={ref}
+      role='tooltip'
+      elevation={4}
+      sx={{ position: 'fixed', pointerEvents: 'none', zIndex: 1500, padding: 1, maxWidth: 280 }}
+    >
+      <Typography variant='subtitle2'>{title}</Typography>
+      <Divider sx={{ my: 0.5 }} />
+      <Typography variant='body2'>Books: {summary.count}</Typography>
+      <Typography variant='body2'>Share {shareLabel}: {percent(summary.share)}</Typography>
+      <Typography variant='body2'>
+        Avg. rating: {summary.averageRating === undefined ? '–' : rating(summary.averageRating)}
+      </Typography>
+      {details?.map(([label, value]) => (
+        <Typography key={label} variant='body2'>{label}: {value}</Typography>
+      ))}
+      {topTitles.length > 0 && (
+        <>
+          <Typography variant='body2' sx={{ mt: 0.5 }}>Most swapped:</Typography>
+          <ol style={{ margin: 0, paddingLeft: '1.2rem' }}>
+            {topTitles.map(t => (
+              <li key={t}><Typography variant='body2'>{t}</Typography></li>
+            ))}
+          </ol>
+        </>
+      )}
+      {hint && (
+        <Typography variant='caption' color='text.secondary' sx={{ display: 'block', mt: 0.5 }}>{hint}</Typography>
+      )}
+    </Paper>,
+    document.body
+  )}
+  </>;
+}
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import * as d3 from 'd3';
+import type { Feature, Geometry } from 'geojson';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { Box, Stack, Chip, Typography, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { ComponentSize } from '../types';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, MapMetric } from '../stores/ViewReducer';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import { summarizeStats } from '../utils/summary';
+import { mergeStats, GroupKey, RollupStats } from '../utils/rollup';
+import { useBooks } from '../stores/BookDataContext';
+import { worldCountries, mapCountryName, CountryProperties } from '../utils/countries';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import ChartDataTable from './ChartDataTable';
+import ExportMenu from './ExportMenu';
+import { useChartTheme } from '../stores/ThemeContext';
+
+type CountryFeature = Feature<Geometry, CountryProperties>;
+
+interface CountryStats {
+  // name of the shape on the map
+  country: string;
+  // the `most_popular_country` values that map onto it, e.g. "USA" and "US"
+  values: string[];
+  count: number;
+  averageRating: number | undefined;
+}
+
+const METRICS: Record<MapMetric, { label: string, format: (v: number) => string }> = {
+  count: { label: 'Books', format: d3.format(',.0f') },
+  rating: { label: 'Avg. rating', format: d3.format('.2f') },
+};
+const LEGEND_WIDTH = 200;
+
+// the map shows every country and highlights the selected ones
+const IGNORED_FILTERS: readonly FilterKey[] = ['most_popular_country'];
+const COUNTRY: GroupKey[] = ['most_popular_country'];
+
+export default function ChoroplethMap() {
+  const totals = useRollup(COUNTRY, { ignore: IGNORED_FILTERS });
+  const { getBooks } = useBooks();
+  const { filters, dispatch } = useFilters();
+  const { view, dispatch: viewDispatch } = useView();
+  const metric = view.mapMetric;
+  const { chart } = useChartTheme();
+  const { tooltip, ...tooltipHandlers } = useTooltip();
+  const { openDrillDown } = useDrillDown();
+  const mapRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: mapRef as React.RefObject<HTMLDivElement>, onResize });
+
+  const countries = worldCountries();
+  const mapNames = useMemo(() => new Set(countries.features.map(d => d.properties.name)), [countries]);
+
+  // the books behind each country, for the tooltips and drill-downs
+  const { stats, bookStats, total } = useMemo(() => {
+    const grouped = d3.group(totals, d => mapCountryName(d.keys[0]));
+    const bookStats = new Map(Array.from(grouped, ([country, v]): [string, RollupStats] => [country, mergeStats(v)]));
+    const stats = new Map(Array.from(grouped, ([country, v]): [string, CountryStats] => {
+      const merged = bookStats.get(country)!;
+      return [country, {
+        country,
+        values: v.map(d => d.keys[0]).sort(d3.ascending),
+        count: merged.value,
+        averageRating: merged.ratingCount > 0 ? merged.ratingSum / merged.ratingCount : undefined,
+      }];
+    }));
+    return { stats, bookStats, total: d3.sum(totals, d => d.value) };
+  }, [totals]);
+
+  // values the normalization table could not place on the map, e.g. city states too small for it
+  const unmapped = useMemo(() => Array.from(stats.values())
+    .filter(d => !mapNames.has(d.country))
+    .sort((a, b) => b.count - a.count), [stats, mapNames]);
+
+  const rows = useMemo(() => Array.from(stats.values()).sort((a, b) => b.count - a.count), [stats]);
+
+  const valueOf = (d: CountryStats | undefined) => (d === undefined ? undefined : metric === 'count' ? d.count : d.averageRating);
+  const isSelected = (d: CountryStats) => d.values.some(v => filters.most_popular_country.includes(v));
+
+  // selects or clears every value that maps onto the country
+  function toggleCountry(d: CountryStats) {
+    const values = isSelected(d)
+      ? filters.most_popular_country.filter(v => !d.values.includes(v))
+      : Array.from(new Set([...filters.most_popular_country, ...d.values]));
+    dispatch({ type: FILTER_ACTIONS.SET_VALUES, key: 'most_popular_country', values });
+  }
+
+  function countryContent(d: CountryStats): TooltipContent {
+    return {
+      title: d.country,
+      summary: summarizeStats(bookStats.get(d.country)!, total),
+      shareLabel: 'of the shown books',
+      details: d.values.length > 1 || d.values[0] !== d.country ? [['Listed as', d.values.join(', ')]] : [],
+      hint: 'Click to filter by country, shift+click to list the books',
+    };
+  }
+
+  function countryLabel(d: CountryStats) {
+    return describeMark(d.country, d.count, d.averageRating === undefined ? [] : [['Average rating', METRICS.rating.format(d.averageRating)]]);
+  }
+
+  function clickCountry(event: MouseEvent, d: CountryStats) {
+    if (event.shiftKey) getBooks(bookStats.get(d.country)!.ids).then(books => openDrillDown(d.country, books));
+    else toggleCountry(d);
+  }
+
+  useEffect(() => {
+    if (size.width === 0 || size.height === 0) return;
+    drawChart();
+  }, [stats, size, metric, filters.most_popular_country, chart]);
+
+  function drawChart() {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const t = svg.transition().duration(TRANSITION_MS);
+    const w = size.width;
+    const h = size.height;
+    const legendHeight = 40;
+
+    const projection = d3.geoNaturalEarth1().fitSize([w, h - legendHeight], countries);
+    const path = d3.geoPath(projection);
+
+    const values = Array.from(stats.values()).map(valueOf).filter((v): v is number => v !== undefined);
+    const [min, max] = d3.extent(values) as [number | undefined, number | undefined];
+    // counts are dominated by a few countries, the square root keeps the rest visible
+    const color = metric === 'count'
+      ? d3.scaleSequentialSqrt(chart.sequential).domain([0, max ?? 1])
+      : d3.scaleSequential(chart.sequential).domain([min ?? 0, max ?? 5]);
+    const fill = (d: CountryFeature) => {
+      const value = valueOf(stats.get(d.properties.name));
+      return value === undefined ? chart.noData : color(value);
+    };
+    const selectedCountries = new Set(Array.from(stats.values()).filter(isSelected).map(d => d.country));
+
+    // every shape, the ones with books become interactive below
+    const countryLayer = ensureLayer(svg, 'countries');
+    const shapes = countryLayer
+      .selectAll<SVGPathElement, CountryFeature>('path')
+      .data(countries.features, d => d.properties.name)
+      .join('path')
+      .attr('d', path)
+      .attr('stroke', d => (selectedCountries.has(d.properties.name) ? chart.emphasis : chart.separator))
+      .attr('stroke-width', d => (selectedCountries.has(d.properties.name) ? 1.5 : 0.5));
+
+    shapes.transition(t).attr('fill', fill);
+    // the selected outlines go on top of their neighbours
+    shapes.filter(d => selectedCountries.has(d.properties.name)).raise();
+
+    const withBooks = shapes.filter(d => stats.has(d.properties.name));
+    shapes.filter(d => !stats.has(d.properties.name))
+      .style('cursor', null)
+      .attr('role', null)
+      .attr('aria-label', null)
+      .attr('data-row', null)
+      .attr('data-col', null)
+      .attr('tabindex', null)
+      .on('click mouseenter focus mousemove mouseleave blur', null);
+
+    // keyboard moves between countries roughly as they lie on the map
+    withBooks
+      .style('cursor', 'pointer')
+      .on('click', (event: MouseEvent, d) => clickCountry(event, stats.get(d.properties.name)!))
+      .call(shape => attachTooltip(
+        shape,
+        tooltipHandlers,
+        d => countryContent(stats.get(d.properties.name)!),
+        d => countryLabel(stats.get(d.properties.name)!),
+      ))
+      .call(shape => setGridPosition(
+        shape,
+        d => Math.round(path.centroid(d)[1] / (h / 8)),
+        d => Math.round(path.centroid(d)[0] / (w / 12)),
+      ));
+    enableKeyboardNavigation(countryLayer);
+
+    // legend
+    const legend = ensureLayer(svg, 'legend')
+      .attr('transform', `translate(${(w - LEGEND_WIDTH) / 2}, ${h - legendHeight + 8})`);
+    const stops = d3.range(11).map(i => color.domain()[0] + ((color.domain()[1] - color.domain()[0]) * i) / 10);
+    legend.selectAll('rect')
+      .data(stops)
+      .join('rect')
+      .attr('x', (_, i) => (i * LEGEND_WIDTH) / stops.length)
+      .attr('width', LEGEND_WIDTH / stops.length)
+      .attr('height', 10)
+      .transition(t)
+      .attr('fill', d => color(d));
+    legend.selectAll('text')
+      .data([stops[0], stops[stops.length - 1]])
+      .join('text')
+      .attr('x', (_, i) => i * LEGEND_WIDTH)
+      .attr('y', 24)
+      .attr('text-anchor', (_, i) => (i === 0 ? 'start' : 'end'))
+      .style('font-size', '11px')
+      .text((d, i) => `${METRICS[metric].format(d)}${i === 0 ? '' : ` ${METRICS[metric].label.toLowerCase()}`}`);
+  }
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+        <ToggleButtonGroup
+          exclusive
+          size='small'
+          value={metric}
+          onChange={(_, value: MapMetric | null) => value && viewDispatch({ type: VIEW_ACTIONS.SET_MAP_METRIC, metric: value })}
+        >
+          <ToggleButton value='count'>Book count</ToggleButton>
+          <ToggleButton value='rating'>Average rating</ToggleButton>
+        </ToggleButtonGroup>
+        {unmapped.length > 0 && (
+          <Stack direction='row' spacing={1} alignItems='center' useFlexGap flexWrap='wrap'>
+            <Typography variant='body2' color='text.secondary'>Not on the map:</Typography>
+            {unmapped.map(d => (
+              <Chip
+                key={d.country}
+                size='small'
+                label={`${d.country} (${METRICS[metric].format(valueOf(d) ?? NaN)})`}
+                color={isSelected(d) ? 'primary' : 'default'}
+                onClick={event => clickCountry(event.nativeEvent, d)}
+              />
+            ))}
+          </Stack>
+        )}
+      </Stack>
+      <div ref={mapRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width='100%'
+          height='100%'
+          role='group'
+          aria-label={chartLabel('Books by most popular country', 'countries')}
+        />
+        <ChartDataTable
+          caption='Books by most popular country'
+          columns={[
+            { label: 'Country', value: d => d.country },
+            { label: 'Books', value: d => d.count },
+            { label: 'Average rating', value: d => (d.averageRating === undefined ? '–' : METRICS.rating.format(d.averageRating)) },
+          ]}
+          rows={rows}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu
+            svgRef={svgRef}
+            fileName='books-by-country'
+            rows={rows.map(d => ({ ...d, values: d.values.join('; ') }))}
+          />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState, ComponentType } from 'react';
+import { Box, Stack, Button, TextField, MenuItem } from '@mui/material';
+import { useLayout } from '../stores/LayoutContext';
+import { LAYOUT_ACTIONS, GRID_COLUMNS, GRID_ROW_HEIGHT, PanelId } from '../stores/LayoutReducer';
+import DashboardPanel, { GRID_GAP } from './DashboardPanel';
+import Timeline from './Timeline';
+import { FacetedBarChart, FacetedHeatmap } from './FacetedCharts';
+import Chart3 from './Chart3';
+import RatingsChart from './RatingsChart';
+import NetworkGraph from './NetworkGraph';
+import ChoroplethMap from './ChoroplethMap';
+import TagMatrix from './TagMatrix';
+import TagCloud from './TagCloud';
+
+export const PANELS: Record<PanelId, { title: string, Component: ComponentType }> = {
+  timeline: { title: 'Publication years', Component: Timeline },
+  bars: { title: 'Genres by age category', Component: FacetedBarChart },
+  heatmap: { title: 'Genres by decade', Component: FacetedHeatmap },
+  sankey: { title: 'Sankey', Component: Chart3 },
+  ratings: { title: 'Ratings by genre', Component: RatingsChart },
+  network: { title: 'Authors and publishers', Component: NetworkGraph },
+  map: { title: 'Countries', Component: ChoroplethMap },
+  tagMatrix: { title: 'Tag co-occurrence', Component: TagMatrix },
+  tagCloud: { title: 'Tag cloud', Component: TagCloud },
+};
+
+// The charts as a 12 column grid of panels the user can move, resize, hide and add back.
+export default function DashboardGrid() {
+  const { layout, dispatch } = useLayout();
+  const [dragged, setDragged] = useState<PanelId | null>(null);
+
+  const visible = layout.filter(panel => !panel.hidden);
+  const hidden = layout.filter(panel => panel.hidden);
+
+  return (
+    <Box>
+      <Stack direction='row' spacing={2} alignItems='center' justifyContent='flex-end' sx={{ mb: 1 }}>
+        <TextField
+          select
+          size='small'
+          label='Add panel'
+          value=''
+          disabled={hidden.length === 0}
+          onChange={event => dispatch({ type: LAYOUT_ACTIONS.SHOW_PANEL, id: event.target.value as PanelId })}
+          sx={{ width: 200 }}
+        >
+          {hidden.map(panel => <MenuItem key={panel.id} value={panel.id}>{PANELS[panel.id].title}</MenuItem>)}
+        </TextField>
+        <Button size='small' onClick={() => dispatch({ type: LAYOUT_ACTIONS.RESET_LAYOUT })}>Restore default layout</Button>
+      </Stack>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`,
+          gridAutoRows: `${GRID_ROW_HEIGHT}px`,
+          gap: `${GRID_GAP}px`,
+        }}
+      >
+        {visible.map((panel, i) => {
+          const { title, Component } = PANELS[panel.id];
+          return (
+            <DashboardPanel
+              key={panel.id}
+              panel={panel}
+              title={title}
+              next={visible[i + 1]?.id ?? null}
+              dragged={dragged}
+              onDragChange={setDragged}
+            >
+              <Component />
+            </DashboardPanel>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
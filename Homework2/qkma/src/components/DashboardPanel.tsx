@@ -0,0 +1,151 @@
+import React, { useRef, useState, ReactNode } from 'react';
+import { Paper, Stack, Typography, IconButton, Box } from '@mui/material';
+import { useLayout } from '../stores/LayoutContext';
+import {
+  LAYOUT_ACTIONS, GRID_COLUMNS, GRID_ROW_HEIGHT, MIN_PANEL_WIDTH, MIN_PANEL_HEIGHT, MAX_PANEL_HEIGHT, PanelLayout, PanelId,
+} from '../stores/LayoutReducer';
+
+export const GRID_GAP = 8;
+
+// the sizes the layout reducer accepts, so the preview never collapses the panel
+const clampSize = ({ width, height }: { width: number, height: number }) => ({
+  width: Math.min(GRID_COLUMNS, Math.max(MIN_PANEL_WIDTH, width)),
+  height: Math.min(MAX_PANEL_HEIGHT, Math.max(MIN_PANEL_HEIGHT, height)),
+});
+
+// arrow keys on the resize handle, as [width, height] steps
+const RESIZE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+interface DashboardPanelProps {
+  panel: PanelLayout;
+  title: string;
+  // the panel after this one in the layout, a drop on the panel's right half moves in front of it
+  next: PanelId | null;
+  // id of the panel being dragged, shared by all panels of the grid
+  dragged: PanelId | null;
+  onDragChange: (id: PanelId | null) => void;
+  children: ReactNode;
+}
+
+// One chart on the dashboard: drag the title bar to move it, the corner to resize it.
+export default function DashboardPanel({ panel, title, next, dragged, onDragChange, children }: DashboardPanelProps) {
+  const { dispatch } = useLayout();
+  const ref = useRef<HTMLDivElement>(null);
+  // size while the corner is dragged, committed to the layout on release
+  const [preview, setPreview] = useState<{ width: number, height: number } | null>(null);
+  const { width, height } = preview ?? panel;
+
+  function startResize(event: React.PointerEvent<HTMLDivElement>) {
+    const grid = ref.current?.parentElement;
+    if (!grid) return;
+    event.preventDefault();
+    const handle = event.currentTarget;
+    handle.setPointerCapture(event.pointerId);
+    const columnWidth = (grid.clientWidth + GRID_GAP) / GRID_COLUMNS;
+    const start = { x: event.clientX, y: event.clientY };
+    let size = { width: panel.width, height: panel.height };
+
+    const move = (e: PointerEvent) => {
+      size = clampSize({
+        width: panel.width + Math.round((e.clientX - start.x) / columnWidth),
+        height: panel.height + Math.round((e.clientY - start.y) / (GRID_ROW_HEIGHT + GRID_GAP)),
+      });
+      setPreview(size);
+    };
+    const end = () => {
+      handle.removeEventListener('pointermove', move);
+      handle.removeEventListener('pointerup', end);
+      handle.removeEventListener('pointercancel', end);
+      setPreview(null);
+      dispatch({ type: LAYOUT_ACTIONS.RESIZE_PANEL, id: panel.id, ...size });
+    };
+    handle.addEventListener('pointermove', move);
+    handle.addEventListener('pointerup', end);
+    handle.addEventListener('pointercancel', end);
+  }
+
+  function resizeByKey(event: React.KeyboardEvent<HTMLDivElement>) {
+    const step = RESIZE_KEYS[event.key];
+    if (!step) return;
+    event.preventDefault();
+    dispatch({ type: LAYOUT_ACTIONS.RESIZE_PANEL, id: panel.id, width: panel.width + step[0], height: panel.height + step[1] });
+  }
+
+  function drop(event: React.DragEvent<HTMLDivElement>) {
+    event.preventDefault();
+    if (dragged === null || dragged === panel.id) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const after = event.clientX > rect.left + rect.width / 2;
+    dispatch({ type: LAYOUT_ACTIONS.MOVE_PANEL, id: dragged, before: after ? next : panel.id });
+    onDragChange(null);
+  }
+
+  return (
+    <Paper
+      ref={ref}
+      elevation={1}
+      onDragOver={event => dragged !== null && event.preventDefault()}
+      onDrop={drop}
+      sx={{
+        gridColumn: { xs: `span ${GRID_COLUMNS}`, md: `span ${Math.min(width, GRID_COLUMNS)}` },
+        gridRow: `span ${height}`,
+        display: 'flex',
+        flexDirection: 'column',
+        position: 'relative',
+        minWidth: 0,
+        opacity: dragged === panel.id ? 0.5 : 1,
+        outline: preview ? '2px dashed' : 'none',
+        outlineColor: 'primary.main',
+      }}
+    >
+      <Stack
+        direction='row'
+        alignItems='center'
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.effectAllowed = 'move';
+          event.dataTransfer.setData('text/plain', panel.id);
+          onDragChange(panel.id);
+        }}
+        onDragEnd={() => onDragChange(null)}
+        sx={{ paddingX: 1, cursor: 'grab', borderBottom: 1, borderColor: 'divider' }}
+      >
+        <Typography variant='subtitle2' sx={{ flex: 1 }}>{title}</Typography>
+        <IconButton
+          size='small'
+          aria-label={`Hide ${title}`}
+          onClick={() => dispatch({ type: LAYOUT_ACTIONS.HIDE_PANEL, id: panel.id })}
+        >
+          ×
+        </IconButton>
+      </Stack>
+      <Box sx={{ flex: 1, minHeight: 0, padding: 1 }}>
+        {children}
+      </Box>
+      <Box
+        role='separator'
+        tabIndex={0}
+        aria-label={`Resize ${title}`}
+        aria-valuetext={`${width} columns wide, ${height} rows high`}
+        aria-keyshortcuts='ArrowLeft ArrowRight ArrowUp ArrowDown'
+        onPointerDown={startResize}
+        onKeyDown={resizeByKey}
+        sx={{
+          position: 'absolute',
+          right: 0,
+          bottom: 0,
+          width: 16,
+          height: 16,
+          cursor: 'nwse-resize',
+          touchAction: 'none',
+          background: theme => `linear-gradient(135deg, transparent 50%, ${theme.palette.action.disabled} 50%)`,
+        }}
+      />
+    </Paper>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import * as d3 from 'd3';
+import {
+  Button, Stack, Typography, Dialog, DialogTitle, DialogContent, DialogActions, Alert,
+  TextField, MenuItem, Table, TableHead, TableBody, TableRow, TableCell, Autocomplete,
+} from '@mui/material';
+import { useBooks } from '../stores/BookDataContext';
+import { useFilters } from '../stores/FilterContext';
+import { FILTER_ACTIONS } from '../stores/FilterReducer';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS } from '../stores/ViewReducer';
+import {
+  parseCsv, inferColumns, suggestMapping, mapRows, mappedDimensions, mappingErrors, MAPPING_ROLES,
+  ColumnInfo, ColumnMapping,
+} from '../utils/csvImport';
+
+interface PendingUpload {
+  fileName: string;
+  rows: d3.DSVRowArray<string>;
+  columns: ColumnInfo[];
+}
+
+const PREVIEW_ROWS = 5;
+
+// Loads a csv from disk (button or drag and drop) and maps its columns to chart roles.
+export default function DatasetUpload() {
+  const { dataset, replaceDataset, resetDataset } = useBooks();
+  const { dispatch: filterDispatch } = useFilters();
+  const { dispatch: viewDispatch } = useView();
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  async function readFile(file: File) {
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length === 0) throw new Error(`${file.name} has no rows`);
+      const columns = inferColumns(rows);
+      setPending({ fileName: file.name, rows, columns });
+      setMapping(suggestMapping(columns));
+      setError(null);
+    } catch (e) {
+      console.error('Error reading CSV:', e);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function apply() {
+    if (!pending || !mapping) return;
+    const dimensions = mappedDimensions(mapping);
+    replaceDataset({
+      name: pending.fileName,
+      books: mapRows(pending.rows, mapping),
+      dimensions,
+      sankeyLayers: dimensions,
+    });
+    filterDispatch({ type: FILTER_ACTIONS.RESET });
+    viewDispatch({ type: VIEW_ACTIONS.RESET_SANKEY, layers: dimensions });
+    setPending(null);
+  }
+
+  function reset() {
+    resetDataset();
+    filterDispatch({ type: FILTER_ACTIONS.RESET });
+    viewDispatch({ type: VIEW_ACTIONS.RESET_SANKEY });
+  }
+
+  const errors = mapping ? mappingErrors(mapping) : [];
+  const columnOptions = pending?.columns.map(c => c.name) ?? [];
+
+  return (
+    <Stack
+      direction='row'
+      spacing={1}
+      alignItems='center'
+      onDragOver={event => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={event => {
+        event.preventDefault();
+        setDragging(false);
+        const file = event.dataTransfer.files[0];
+        if (file) readFile(file);
+      }}
+      sx={{ padding: 0.5, borderRadius: 1, outline: dragging ? '2px dashed' : 'none' }}
+    >
+      <Typography variant='body2'>Dataset: {dataset.name}</Typography>
+      <Button size='small' variant='outlined' component='label'>
+        Upload CSV
+        <input
+          hidden
+          type='file'
+          accept='.csv,text/csv'
+          onChange={event => {
+            const file = event.target.files?.[0];
+            if (file) readFile(file);
+            event.target.value = '';
+          }}
+        />
+      </Button>
+      {!dataset.builtIn && <Button size='small' onClick={reset}>Use built-in data</Button>}
+      {error && <Alert severity='error' onClose={() => setError(null)}>{error}</Alert>}
+
+      <Dialog open={pending !== null} onClose={() => setPending(null)} maxWidth='md' fullWidth>
+        <DialogTitle>Map the columns of {pending?.fileName}</DialogTitle>
+        <DialogContent>
+          {pending && mapping && (
+            <Stack spacing={2} sx={{ pt: 1 }}>
+              {MAPPING_ROLES.map(({ role, label, description, required }) => (
+                <TextField
+                  key={role}
+                  select
+                  size='small'
+                  label={label}
+                  helperText={description}
+                  required={required}
+                  value={mapping[role] ?? ''}
+                  onChange={event => setMapping({ ...mapping, [role]: event.target.value || null })}
+                >
+                  {!required && <MenuItem value=''><em>None</em></MenuItem>}
+                  {columnOptions.map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+                </TextField>
+              ))}
+              <Autocomplete
+                multiple
+                size='small'
+                options={columnOptions}
+                value={mapping.flowLayers}
+                onChange={(_, flowLayers) => setMapping({ ...mapping, flowLayers })}
+                renderInput={params => (
+                  <TextField {...params} label='Flow layers' helperText='Extra Sankey layers, in order' />
+                )}
+              />
+              {errors.map(message => <Alert key={message} severity='warning'>{message}</Alert>)}
+
+              <Typography variant='subtitle2'>Detected columns ({pending.rows.length} rows)</Typography>
+              <Table size='small'>
+                <TableHead>
+                  <TableRow>
+                    {pending.columns.map(c => (
+                      <TableCell key={c.name}>
+                        {c.name}
+                        <Typography variant='caption' color='text.secondary' sx={{ display: 'block' }}>
+                          {c.type}, {c.distinct} distinct{c.empty > 0 ? `, ${c.empty} empty` : ''}
+                        </Typography>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {pending.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <TableRow key={i}>
+                      {pending.columns.map(c => <TableCell key={c.name}>{row[c.name]}</TableCell>)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)}>Cancel</Button>
+          <Button variant='contained' disabled={errors.length > 0} onClick={apply}>Visualize</Button>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
@@ -1,7 +1,25 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
-import { isEmpty } from 'lodash';
-import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import ChartDataTable from './ChartDataTable';
+import { summarizeStats } from '../utils/summary';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip } from './ChartTooltip';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { Box } from '@mui/material';
+import ExportMenu from './ExportMenu';
+import BarChartControls from './BarChartControls';
+import { useView } from '../stores/ViewContext';
+import { SMALL_GENRE_SHARE, BarLayout, BarSort } from '../stores/ViewReducer';
+import { OTHER, getDimension, categoryFilterKey, DimensionKey } from '../utils/dimensions';
+import { useChartFrame } from '../utils/useChartFrame';
+import { useFacet, useFacetDomain } from '../stores/FacetContext';
+import { mergeStats, totalsBy, RollupStats, ValueRestriction } from '../utils/rollup';
+import { useBookLookup } from '../stores/BookDataContext';
+import { Book, Margin } from '../types';
+import { useChartTheme, useCategoryColor } from '../stores/ThemeContext';
 
 interface StackedBar {
   category: string;
@@ -14,75 +32,185 @@ interface StackedData {
   [key: string]: number | string;
 }
 
-interface ComponentSize {
-  width: number;
-  height: number;
+// one rect: a stack of a category, spanning y0..y1 in the current layout
+interface BarSegment extends StackedBar {
+  y0: number;
+  y1: number;
 }
 
-interface Margin {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
+interface StackedBarChartProps {
+  // books to draw instead of the filtered dataset, summed on the main thread
+  books?: Book[];
+  // only some of the filtered books, e.g. one small multiple's
+  restrict?: readonly ValueRestriction[];
+  // one bar per value, clicking a bar filters by it
+  category?: DimensionKey;
+  // what the bars are split by
+  stack?: DimensionKey;
+  // how much one of `books` adds to its bar, its weight by default; the worker
+  // always sums the weights
+  value?: (book: Book) => number;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  // colors of the stacks, the shared category colors by default
+  palette?: readonly string[] | ((stack: string) => string);
+  // fractions of the width (left, right) and height (top, bottom)
+  margin?: Margin;
+  // the layout, sort and "Other" controls; they change the view shared by every bar chart
+  showControls?: boolean;
+  // layout and sort of this chart alone, instead of the shared view's
+  layout?: BarLayout;
+  sort?: BarSort;
 }
 
-export default function StackedBarChart() {
-  const [bars, setBars] = useState<StackedBar[]>([]);
-  const barRef = useRef<HTMLDivElement>(null);
-  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
-
-  const margin: Margin = { top: 0.2, right: 0.04, bottom: 0.3, left: 0.12 };
-
-  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-  useResizeObserver({ ref: barRef as React.RefObject<HTMLDivElement>, onResize });
-
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const rawData = await d3.csv('../../data/top_1000_most_swapped_books.csv');
-
-        const grouped = d3.rollup(
-          rawData,
-          v => v.length,
-          d => d.genre,
-          d => d.age_category
-        );
-
-        const barsData: StackedBar[] = [];
-        for (const [genre, map] of grouped) {
-          for (const [age, count] of map) {
-            barsData.push({ category: genre ?? 'Unknown', stack: age ?? 'Unknown', value: count });
-          }
-        }
+const DEFAULT_MARGIN: Margin = { top: 0.2, right: 0.04, bottom: 0.3, left: 0.12 };
+const NO_IGNORE: readonly FilterKey[] = [];
+// the same array every render, so a category without a filter does not redraw the chart
+const NO_VALUES: string[] = [];
+
+export default function StackedBarChart({
+  books: booksProp,
+  restrict,
+  category = 'genre',
+  stack = 'age_category',
+  value,
+  title = 'Top 1000 Swapped Books by Genre and Age Category',
+  xLabel,
+  yLabel,
+  palette,
+  margin = DEFAULT_MARGIN,
+  showControls = true,
+  layout: layoutProp,
+  sort: sortProp,
+}: StackedBarChartProps) {
+  const categoryDimension = getDimension(category);
+  const stackDimension = getDimension(stack);
+  const filterKey = categoryFilterKey(category);
+  // the category axis stays complete so the selected values can be highlighted
+  const ignored = useMemo(() => (filterKey ? [filterKey] : NO_IGNORE), [filterKey]);
+  const { filters, dispatch } = useFilters();
+  const lookup = useBookLookup(booksProp);
+  const { tooltip, ...tooltipHandlers } = useTooltip(lookup);
+  const { openDrillDown } = useDrillDown();
+  const { view } = useView();
+  const { sortStack, collapseSmall } = view.bar;
+  const layout = layoutProp ?? view.bar.layout;
+  const sort = sortProp ?? view.bar.sort;
+  const { chart } = useChartTheme();
+  const categoryColor = useCategoryColor();
+  const { containerRef, svgRef, frame, ready } = useChartFrame(margin);
+  const label = categoryDimension.label.toLowerCase();
+
+  // values folded into "Other"; a single small value is clearer under its own name
+  // summed in the worker, unless the books come from the props
+  const rows = useRollup([category, stack], { ignore: ignored, restrict, books: booksProp, value });
+
+  const collapsed = useMemo(() => {
+    if (!collapseSmall) return new Set<string>();
+    const totals = totalsBy(rows, 0);
+    const threshold = d3.sum(totals.values()) * SMALL_GENRE_SHARE;
+    const small = Array.from(totals)
+      .filter(([, count]) => count < threshold)
+      .map(([name]) => name);
+    return new Set(small.length > 1 ? small : []);
+  }, [rows, collapseSmall]);
+
+  // the books behind each bar segment, for the tooltips and drill-downs
+  const { bars, segmentStats, categoryTotals } = useMemo(() => {
+    const grouped = d3.rollup(
+      rows,
+      v => mergeStats(v),
+      d => (collapsed.has(d.keys[0]) ? OTHER : d.keys[0]),
+      d => d.keys[1]
+    );
 
-        setBars(barsData);
-      } catch (error) {
-        console.error('Error loading CSV:', error);
+    const barsData: StackedBar[] = [];
+    const segmentStats = new Map<string, RollupStats>();
+    const categoryTotals = new Map<string, number>();
+    for (const [name, map] of grouped) {
+      for (const [stackValue, stats] of map) {
+        barsData.push({ category: name, stack: stackValue, value: stats.value });
+        segmentStats.set(`${name}|${stackValue}`, stats);
       }
-    };
-
-    loadData();
-  }, []);
+      categoryTotals.set(name, d3.sum(map.values(), d => d.value));
+    }
+    return { bars: barsData, segmentStats, categoryTotals };
+  }, [rows, collapsed]);
+
+  // sorted so the legend and grouped bars keep their order when filters remove some
+  const stacks = useMemo(() => Array.from(new Set(bars.map(d => d.stack))).sort(d3.ascending), [bars]);
+
+  // "Other" always goes last, whatever the order
+  const genres = useMemo(() => {
+    const totals = d3.rollup(bars, v => d3.sum(v, d => d.value), d => d.category);
+    const stackShare = d3.rollup(
+      bars.filter(d => d.stack === sortStack),
+      v => d3.sum(v, d => d.value),
+      d => d.category
+    );
+    const share = (genre: string) => (stackShare.get(genre) ?? 0) / totals.get(genre)!;
+    const compare = {
+      total: (a: string, b: string) => d3.descending(totals.get(a), totals.get(b)) || d3.ascending(a, b),
+      alphabetical: (a: string, b: string) => d3.ascending(a, b),
+      stackShare: (a: string, b: string) => d3.descending(share(a), share(b)) || d3.ascending(a, b),
+    }[sort];
+    return Array.from(totals.keys())
+      .sort((a, b) => (a === OTHER ? 1 : 0) - (b === OTHER ? 1 : 0) || compare(a, b));
+  }, [bars, sort, sortStack]);
+
+  // the tallest bar, so small multiples with shared scales can use the same y axis
+  const maxValue = useMemo(() => {
+    if (layout === 'normalized') return 1;
+    if (layout === 'grouped') return d3.max(bars, d => d.value) ?? 0;
+    return d3.max(d3.rollup(bars, v => d3.sum(v, d => d.value), d => d.category).values()) ?? 0;
+  }, [bars, layout]);
+
+  const facet = useFacet();
+  const local = useMemo(() => ({ x: genres, y: stacks, max: maxValue }), [genres, stacks, maxValue]);
+  const domain = useFacetDomain(local);
+
+  const segmentOf = (d: StackedBar) => segmentStats.get(`${d.category}|${d.stack}`)!;
+
+  const selectedValues = filterKey ? filters[filterKey] : NO_VALUES;
+
+  // "Other" selects or clears all the values folded into it
+  function toggleCategory(name: string) {
+    if (!filterKey) {
+      if (name !== OTHER && categoryDimension.toggleFilter) dispatch(categoryDimension.toggleFilter(name, filters));
+      return;
+    }
+    if (name !== OTHER || collapsed.size === 0) {
+      dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: filterKey, value: name });
+      return;
+    }
+    const allSelected = Array.from(collapsed).every(d => selectedValues.includes(d));
+    const values = allSelected
+      ? selectedValues.filter(d => !collapsed.has(d))
+      : Array.from(new Set([...selectedValues, ...collapsed]));
+    dispatch({ type: FILTER_ACTIONS.SET_VALUES, key: filterKey, values });
+  }
 
   useEffect(() => {
-    if (isEmpty(bars)) return;
-    if (size.width === 0 || size.height === 0) return;
-    d3.select('#bar-svg').selectAll('*').remove();
+    if (!ready) return;
     drawChart();
-  }, [bars, size]);
+  }, [bars, domain, frame, selectedValues, layout, chart, categoryColor, palette, title, xLabel, yLabel]);
 
-  function drawChart() {
-    const svg = d3.select('#bar-svg');
-    const w = size.width;
-    const h = size.height;
+  // outlines the bar hovered in any of the small multiples
+  useEffect(() => {
+    if (!facet) return;
+    d3.select(svgRef.current).select('g.bars').selectAll<SVGRectElement, BarSegment>('rect')
+      .attr('stroke', d => (d.category === facet.hovered ? chart.emphasis : null))
+      .attr('stroke-width', d => (d.category === facet.hovered ? 2 : null));
+  }, [facet?.hovered, bars, domain, chart]);
 
-    const leftMargin = margin.left * w;
-    const rightMargin = margin.right * w;
-    const topMargin = margin.top * h;
-    const bottomMargin = margin.bottom * h;
+  function drawChart() {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const w = frame.width;
+    const h = frame.height;
 
-    const genres = Array.from(new Set(bars.map(d => d.category)));
-    const stacks = Array.from(new Set(bars.map(d => d.stack)));
+    const leftMargin = frame.left;
+    const topMargin = frame.top;
 
     const dataMap = d3.rollup(
       bars,
@@ -99,118 +227,205 @@ export default function StackedBarChart() {
       ...values,
     }));
 
-    const series = d3.stack<StackedData, string>()
-      .keys(stacks)
-      .value((d, key) => (d[key] as number) ?? 0)
-      (stackedInput);
+    // grouped bars all start at 0, the other layouts stack (and optionally expand to 100%)
+    const segments: BarSegment[] = layout === 'grouped'
+      ? bars.map(d => ({ ...d, y0: 0, y1: d.value }))
+      : d3.stack<StackedData, string>()
+        .keys(stacks)
+        .value((d, key) => (d[key] as number) ?? 0)
+        .offset(layout === 'normalized' ? d3.stackOffsetExpand : d3.stackOffsetNone)
+        (stackedInput)
+        .flatMap(s => s
+          .filter(p => p.data[s.key] !== undefined)
+          .map(p => ({ category: p.data.category, stack: s.key, value: p.data[s.key] as number, y0: p[0], y1: p[1] })));
+    const series = d3.groups(segments, d => d.stack);
 
     const x = d3.scaleBand()
-      .domain(genres)
-      .range([leftMargin, w - rightMargin])
+      .domain(domain.x)
+      .range([leftMargin, frame.right])
       .padding(0.1);
 
-    const chartHeight = h - topMargin - bottomMargin;
+    // position of a stack inside its category's band when grouped
+    const xStack = d3.scaleBand()
+      .domain(domain.y)
+      .range([0, x.bandwidth()])
+      .padding(0.05);
+    const segmentX = (d: BarSegment) => x(d.category)! + (layout === 'grouped' ? xStack(d.stack)! : 0);
+    const segmentWidth = layout === 'grouped' ? xStack.bandwidth() : x.bandwidth();
+
+    const chartHeight = frame.innerHeight;
 
     const y = d3.scaleLinear()
-      .domain([0, d3.max(series, s => d3.max(s, d => d[1])) || 0])
+      .domain([0, domain.max])
       .nice()
       .range([chartHeight + topMargin, topMargin]);
 
-    const color = d3.scaleOrdinal<string>()
-      .domain(stacks)
-      .range(['#018dffa5', '#73c0ffb1', '#c5efffbc', '#C7F464', '#C44D58']);
+    const stackColor = typeof palette === 'function' ? palette
+      : palette ? d3.scaleOrdinal<string, string>().domain(stacks).range(palette)
+        : (name: string) => categoryColor(stack, name);
+    const color = (name: string) => stackColor(name);
+
+    const t = svg.transition().duration(TRANSITION_MS);
 
     // backgroud
-  svg.append('rect')
-    .attr('x', 0)
-    .attr('y', 0)
-    .attr('width', size.width)
-    .attr('height', size.height)
-    .attr('fill', '#dbdcd0');
-
-    // bar
-    svg.append('g')
-      .selectAll('g')
-      .data(series)
-      .join('g')
-      .attr('fill', s => color(s.key))
-      .selectAll('rect')
-      .data(s => s.map(p => ({ ...p, seriesKey: s.key })))
-      .join('rect')
-      .attr('x', d => x(d.data.category)!)
-      .attr('y', d => y(d[1]))
-      .attr('height', d => y(d[0]) - y(d[1]))
-      .attr('width', x.bandwidth())
-      .append('title')
-      .text(d => `${d.data.category} ${d.seriesKey}: ${d[1] - d[0]}`);
-
-// x
-svg.append('g')
-  .attr('transform', `translate(0, ${chartHeight + topMargin})`)
-  .call(d3.axisBottom(x))
-  .selectAll("text")
-  .attr("font-size", `${Math.max(Math.min(x.bandwidth() * 0.6, w * 0.024), w * 0.008)}px`)
-  .attr("text-anchor", "end")
-  .attr("transform", function(d) {
-    const rotate = x.bandwidth() < w * 0.04 ? -60 : -45;
-    const shift = -0.8 * x.bandwidth();
-    return `translate(${shift},0) rotate(${rotate})`;
-  })
-  .attr("dy", "0.35em");
+    ensureLayer<SVGRectElement>(svg, 'background', 'rect')
+      .attr('x', 0)
+      .attr('y', 0)
+      .attr('width', w)
+      .attr('height', h)
+      .attr('fill', chart.background);
+
+    const selected = new Set(selectedValues);
+    const isSelected = (name: string) => selected.size === 0
+      || (name === OTHER ? Array.from(collapsed).some(d => selected.has(d)) : selected.has(name));
+
+    // bar, keyed by stack and category so segments grow and shrink in place
+    const barsLayer = ensureLayer(svg, 'bars');
+    barsLayer
+      .selectAll<SVGGElement, [string, BarSegment[]]>('g')
+      .data(series, ([stack]) => stack)
+      .join(
+        enter => enter.append('g'),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove()
+      )
+      .attr('fill', ([stack]) => color(stack))
+      .selectAll<SVGRectElement, BarSegment>('rect')
+      .data(([, segments]) => segments, d => d.category)
+      .join(
+        enter => enter.append('rect')
+          .attr('x', segmentX)
+          .attr('width', segmentWidth)
+          .attr('y', y(0))
+          .attr('height', 0),
+        update => update,
+        exit => exit.transition(t)
+          .attr('y', y(0))
+          .attr('height', 0)
+          .remove()
+      )
+      .style('cursor', 'pointer')
+      .on('click', (event: MouseEvent, d) => {
+        if (event.shiftKey) {
+          lookup(segmentOf(d).ids).then(books => openDrillDown(`${d.category} · ${d.stack}`, books));
+        } else {
+          toggleCategory(d.category);
+        }
+      })
+      .call(rect => attachTooltip(rect, tooltipHandlers, d => ({
+        title: `${d.category} · ${d.stack}`,
+        summary: summarizeStats(segmentOf(d), categoryTotals.get(d.category)!),
+        shareLabel: `of ${d.category}`,
+        details: d.category === OTHER ? [[categoryDimension.label, Array.from(collapsed).sort(d3.ascending).join(', ')]] : [],
+        hint: `Click to filter by ${label}, shift+click to list the books`,
+      }), d => describeMark(`${d.category} · ${d.stack}`, d.value)))
+      .on('mouseenter.facet', (_, d) => facet?.setHovered(d.category))
+      .on('mouseleave.facet', () => facet?.setHovered(null))
+      .call(rect => setGridPosition(rect, d => stacks.length - 1 - stacks.indexOf(d.stack), d => genres.indexOf(d.category)))
+      .transition(t)
+      .attr('x', segmentX)
+      .attr('y', d => y(d.y1))
+      .attr('height', d => y(d.y0) - y(d.y1))
+      .attr('width', segmentWidth)
+      .attr('opacity', d => (isSelected(d.category) ? 1 : 0.35));
+    enableKeyboardNavigation(barsLayer);
+
+    // x
+    ensureLayer(svg, 'x-axis')
+      .attr('transform', `translate(0, ${chartHeight + topMargin})`)
+      .transition(t)
+      .call(d3.axisBottom(x))
+      .selectAll('text')
+      .attr('font-size', `${Math.max(Math.min(x.bandwidth() * 0.6, w * 0.024), w * 0.008)}px`)
+      .attr('text-anchor', 'end')
+      .attr('transform', () => {
+        const rotate = x.bandwidth() < w * 0.04 ? -60 : -45;
+        const shift = -0.8 * x.bandwidth();
+        return `translate(${shift},0) rotate(${rotate})`;
+      })
+      .attr('dy', '0.35em');
 
     // y
-    svg.append('g')
+    ensureLayer(svg, 'y-axis')
       .attr('transform', `translate(${leftMargin},0)`)
-      .call(d3.axisLeft(y));
+      .transition(t)
+      .call(d3.axisLeft(y).tickFormat(layout === 'normalized' ? d3.format('.0%') : d3.format(',')));
 
     // title
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'title', 'text')
       .attr('x', w / 2)
       .attr('y', topMargin / 2)
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.025 * w}px`)
       .style('font-weight', 'bold')
-      .text('Top 1000 Swapped Books by Genre and Age Category');
+      .text(title);
 
     // x lable
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'x-label', 'text')
       .attr('x', margin.left + w / 2)
       .attr('y', chartHeight + topMargin + 0.25 * h)
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.02 * w}`)
-      .text('Genre');
+      .text(xLabel ?? categoryDimension.label);
     // y lable
-    svg.append('text')
+    ensureLayer<SVGTextElement>(svg, 'y-label', 'text')
       .attr('transform', `translate(${leftMargin * 0.6}, ${topMargin + chartHeight / 2}) rotate(-90)`)
       .attr('text-anchor', 'middle')
       .style('font-size', `${0.02 * w}`)
-      .text('Counts');
-
+      .text(yLabel ?? (layout === 'normalized' ? `Share of ${label}` : 'Counts'));
 
     // legend
-    const legend = svg.append('g')
-      .attr('transform', `translate(${leftMargin}, ${topMargin * 0.7})`);
-
-    stacks.forEach((stack, i) => {
-      const g = legend.append('g')
-        .attr('transform', `translate(${i * 0.08 * w},0)`);
-
-      g.append('rect')
-        .attr('width', 0.015 * w)
-        .attr('height', 0.015 * w)
-        .attr('fill', color(stack));
-
-      g.append('text')
-        .attr('x', 0.02 * w)
-        .attr('y', 0.012 * w)
-        .text(stack)
-        .style('font-size', `${0.012 * w}px`);
-    });
+    const legendItems = ensureLayer(svg, 'legend')
+      .attr('transform', `translate(${leftMargin}, ${topMargin * 0.7})`)
+      .selectAll<SVGGElement, string>('g')
+      .data(stacks, d => d)
+      .join(enter => {
+        const g = enter.append('g');
+        g.append('rect');
+        g.append('text');
+        return g;
+      })
+      .attr('transform', (_, i) => `translate(${i * 0.08 * w},0)`);
+
+    legendItems.select('rect')
+      .attr('width', 0.015 * w)
+      .attr('height', 0.015 * w)
+      .attr('fill', d => color(d));
+
+    legendItems.select('text')
+      .attr('x', 0.02 * w)
+      .attr('y', 0.012 * w)
+      .text(d => d)
+      .style('font-size', `${0.012 * w}px`);
   }
 
+  const caption = `Books by ${label} and ${stackDimension.label.toLowerCase()}`;
+
   return (
-    <div ref={barRef} style={{ width: '100%', height: '100%' }}>
-      <svg id='bar-svg' width='100%' height='100%'></svg>
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {showControls && <BarChartControls stacks={stacks} />}
+      <div ref={containerRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width='100%'
+          height='100%'
+          role='group'
+          aria-label={chartLabel(caption, 'bar segments')}
+        ></svg>
+        <ChartDataTable
+          caption={caption}
+          columns={[
+            { label: categoryDimension.label, value: d => d.category },
+            { label: stackDimension.label, value: d => d.stack },
+            { label: 'Books', value: d => d.value },
+          ]}
+          rows={bars}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu svgRef={svgRef} fileName={`${category}-${stack}-stacked-bars`.replace(/[^\w-]+/g, '_')} rows={bars} />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
     </div>
   );
 }
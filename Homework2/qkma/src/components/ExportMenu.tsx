@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem, Divider } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { exportSvg, exportPng, exportCsv, exportJson } from '../utils/export';
+
+interface ExportMenuProps {
+  svgRef: React.RefObject<SVGSVGElement | null>;
+  fileName: string;
+  // the aggregated rows behind the chart, flat enough for a csv
+  rows: object[];
+  // richer structure for the json export, defaults to `rows`
+  json?: unknown;
+}
+
+const PNG_SCALES = [1, 2, 4];
+
+export default function ExportMenu({ svgRef, fileName, rows, json }: ExportMenuProps) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const theme = useTheme();
+
+  function run(action: () => void | Promise<void>) {
+    setAnchor(null);
+    Promise.resolve()
+      .then(action)
+      .catch(error => console.error('Error exporting chart:', error));
+  }
+
+  const svg = () => {
+    if (!svgRef.current) throw new Error('Chart is not rendered yet');
+    return svgRef.current;
+  };
+
+  return (
+    <>
+      <Button
+        size='small'
+        variant='outlined'
+        aria-haspopup='menu'
+        onClick={event => setAnchor(event.currentTarget)}
+        sx={{ backgroundColor: 'background.paper' }}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchor} open={anchor !== null} onClose={() => setAnchor(null)}>
+        <MenuItem onClick={() => run(() => exportSvg(svg(), fileName))}>SVG</MenuItem>
+        {PNG_SCALES.map(scale => (
+          <MenuItem key={scale} onClick={() => run(() => exportPng(svg(), fileName, scale, theme.palette.background.paper))}>PNG ({scale}×)</MenuItem>
+        ))}
+        <Divider />
+        <MenuItem disabled={rows.length === 0} onClick={() => run(() => exportCsv(rows, fileName))}>Data as CSV</MenuItem>
+        <MenuItem disabled={rows.length === 0} onClick={() => run(() => exportJson(json ?? rows, fileName))}>Data as JSON</MenuItem>
+      </Menu>
+    </>
+  );
+}
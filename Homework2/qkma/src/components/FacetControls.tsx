@@ -0,0 +1,49 @@
+import React from 'react';
+import { Stack, TextField, MenuItem, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, FACET_KEYS, FacetChart, FacetScales } from '../stores/ViewReducer';
+import { useBooks } from '../stores/BookDataContext';
+import { getDimension, DimensionKey } from '../utils/dimensions';
+
+interface FacetControlsProps {
+  chart: FacetChart;
+  // dimensions the chart already draws along, not offered to split by
+  exclude: DimensionKey[];
+}
+
+// Splits a chart into small multiples by a dimension, with shared or independent scales.
+export default function FacetControls({ chart, exclude }: FacetControlsProps) {
+  const { view, dispatch } = useView();
+  const { dataset } = useBooks();
+  const by = view.facet[chart];
+
+  const options = dataset.dimensions.filter(key =>
+    ((FACET_KEYS.includes(key) || key.startsWith('attr:')) && !exclude.includes(key)) || key === by);
+
+  return (
+    <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+      <TextField
+        select
+        size='small'
+        label='Split by'
+        value={by ?? ''}
+        onChange={event => dispatch({ type: VIEW_ACTIONS.SET_FACET, chart, by: (event.target.value || null) as DimensionKey | null })}
+        sx={{ width: 200 }}
+      >
+        <MenuItem value=''>None</MenuItem>
+        {options.map(key => <MenuItem key={key} value={key}>{getDimension(key).label}</MenuItem>)}
+      </TextField>
+      {by && (
+        <ToggleButtonGroup
+          exclusive
+          size='small'
+          value={view.facet.scales}
+          onChange={(_, value: FacetScales | null) => value && dispatch({ type: VIEW_ACTIONS.SET_FACET_SCALES, scales: value })}
+        >
+          <ToggleButton value='shared'>Shared scales</ToggleButton>
+          <ToggleButton value='independent'>Independent</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+    </Stack>
+  );
+}
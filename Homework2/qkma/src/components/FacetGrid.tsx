@@ -0,0 +1,65 @@
+import React, { useMemo, ReactNode } from 'react';
+import * as d3 from 'd3';
+import { Box } from '@mui/material';
+import { useRollup } from '../stores/FilterContext';
+import { FilterKey } from '../stores/FilterReducer';
+import { useView } from '../stores/ViewContext';
+import { FACET_LIMIT } from '../stores/ViewReducer';
+import { FacetProvider } from '../stores/FacetContext';
+import { OTHER, getDimension, DimensionKey } from '../utils/dimensions';
+import { totalsBy, ValueRestriction } from '../utils/rollup';
+
+interface FacetGridProps {
+  // dimension with one small multiple per value
+  by: DimensionKey;
+  // filters the charts in the grid leave out, as they would standing alone
+  ignore: readonly FilterKey[];
+  // draws the chart for one value's books, which `restrict` picks out of the filtered ones
+  children: (restrict: readonly ValueRestriction[], value: string) => ReactNode;
+}
+
+// Small multiples of one chart: the largest `FACET_LIMIT` values of `by` get a
+// panel each, the rest share an "Other" one. The panels share hover and, unless
+// the view says otherwise, their scales.
+export default function FacetGrid({ by, ignore, children }: FacetGridProps) {
+  const counts = useRollup([by], { ignore, ids: false });
+  const { view } = useView();
+  const dimension = getDimension(by);
+
+  const totals = Array.from(totalsBy(counts, 0)).sort((a, b) => b[1] - a[1] || d3.ascending(a[0], b[0]));
+  const top = totals.slice(0, FACET_LIMIT).map(d => d[0]);
+  const hasOther = totals.length > top.length;
+  // the panels keep their restrictions while the same values lead, so they only
+  // ask the worker again when the filters change
+  const topKey = top.join('\u0000');
+  const facets = useMemo(() => {
+    const panels = top.map((value): [string, ValueRestriction[]] => [value, [{ key: by, values: [value] }]]);
+    if (hasOther) panels.push([OTHER, [{ key: by, values: top, exclude: true }]]);
+    return panels;
+  }, [topKey, hasOther, by]);
+
+  const columns = Math.max(1, Math.ceil(Math.sqrt(facets.length)));
+  const rows = Math.max(1, Math.ceil(facets.length / columns));
+
+  return (
+    <FacetProvider shared={view.facet.scales === 'shared'}>
+      <Box
+        role='list'
+        aria-label={`Split by ${dimension.label.toLowerCase()}`}
+        sx={{
+          flex: 1,
+          minHeight: 0,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+        }}
+      >
+        {facets.map(([value, restrict]) => (
+          <Box key={value} role='listitem' sx={{ minWidth: 0, minHeight: 0 }}>
+            {children(restrict, value)}
+          </Box>
+        ))}
+      </Box>
+    </FacetProvider>
+  );
+}
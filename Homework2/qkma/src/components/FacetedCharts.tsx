@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { useView } from '../stores/ViewContext';
+import { useRollup } from '../stores/FilterContext';
+import { FilterKey } from '../stores/FilterReducer';
+import { categoryFilterKey, getDimension, DimensionKey } from '../utils/dimensions';
+import StackedBarChart from './Example';
+import GenreDecadeHeatmap, { HeatmapModeToggle } from './Chart2';
+import BarChartControls from './BarChartControls';
+import FacetControls from './FacetControls';
+import FacetGrid from './FacetGrid';
+
+const BAR_AXES: DimensionKey[] = ['genre', 'age_category'];
+const BAR_IGNORED: readonly FilterKey[] = [categoryFilterKey('genre')!];
+const STACKS: DimensionKey[] = ['age_category'];
+const HEATMAP_AXES: DimensionKey[] = ['genre'];
+const HEATMAP_IGNORED: readonly FilterKey[] = ['yearRange'];
+
+const facetTitle = (by: DimensionKey, value: string) => `${getDimension(by).label}: ${value}`;
+
+// The genre bar chart, or one per value of the dimension the view splits it by.
+export function FacetedBarChart() {
+  const { view } = useView();
+  const by = view.facet.bars;
+  const rows = useRollup(STACKS, { ignore: BAR_IGNORED, ids: false });
+  // the sort keys the controls offer, over all panels
+  const stacks = useMemo(() => rows.map(row => row.keys[0]).sort(d3.ascending), [rows]);
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <FacetControls chart='bars' exclude={BAR_AXES} />
+      {by === null ? (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <StackedBarChart />
+        </div>
+      ) : (
+        <>
+          <BarChartControls stacks={stacks} />
+          <FacetGrid by={by} ignore={BAR_IGNORED}>
+            {(restrict, value) => <StackedBarChart restrict={restrict} title={facetTitle(by, value)} showControls={false} />}
+          </FacetGrid>
+        </>
+      )}
+    </div>
+  );
+}
+
+// The genre by decade heatmap, or one per value of the dimension the view splits it by.
+export function FacetedHeatmap() {
+  const { view } = useView();
+  const by = view.facet.heatmap;
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <FacetControls chart='heatmap' exclude={HEATMAP_AXES} />
+      {by === null ? (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <GenreDecadeHeatmap />
+        </div>
+      ) : (
+        <>
+          <HeatmapModeToggle />
+          <FacetGrid by={by} ignore={HEATMAP_IGNORED}>
+            {(restrict, value) => <GenreDecadeHeatmap restrict={restrict} title={facetTitle(by, value)} showControls={false} />}
+          </FacetGrid>
+        </>
+      )}
+    </div>
+  );
+}
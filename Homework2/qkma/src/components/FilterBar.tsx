@@ -0,0 +1,113 @@
+import React from 'react';
+import { Paper, Stack, Chip, Button, Autocomplete, TextField, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { useBooks } from '../stores/BookDataContext';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { GroupKey } from '../utils/rollup';
+import { visuallyHidden } from '../utils/a11y';
+import {
+  FILTER_ACTIONS, FILTER_LABELS, CATEGORY_FILTER_KEYS, LIST_FILTER_KEYS, FLAG_FILTER_KEYS,
+  hasActiveFilters, ValueFilterKey, FlagFilterKey,
+} from '../stores/FilterReducer';
+
+const NO_VALUES: string[] = [];
+const NO_GROUPS: GroupKey[] = [];
+const COUNT_ONLY = { ids: false };
+
+const flagToValue = (flag: boolean | null) => (flag === null ? 'any' : flag ? 'yes' : 'no');
+const valueToFlag = (value: string) => (value === 'yes' ? true : value === 'no' ? false : null);
+
+// Shows every active filter as a chip, and the filters no chart can set by clicking.
+export default function FilterBar() {
+  const { summary } = useBooks();
+  const { filters, dispatch } = useFilters();
+  // one row counting every book that passes the filters
+  const [filtered] = useRollup(NO_GROUPS, COUNT_ONLY);
+
+  // values sorted by how many books carry them
+  const selectors: { key: ValueFilterKey, options: string[] }[] = [
+    { key: 'language', options: summary.values.language ?? NO_VALUES },
+    { key: 'most_popular_country', options: summary.values.most_popular_country ?? NO_VALUES },
+    { key: 'tags', options: summary.values.tag ?? NO_VALUES },
+  ];
+
+  const chips: { key: string, label: string, onDelete: () => void }[] = [];
+  [...CATEGORY_FILTER_KEYS, ...LIST_FILTER_KEYS].forEach(key => {
+    filters[key].forEach(value => chips.push({
+      key: `${key}-${value}`,
+      label: `${FILTER_LABELS[key]}: ${value}`,
+      onDelete: () => dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key, value }),
+    }));
+  });
+  FLAG_FILTER_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value === null) return;
+    chips.push({
+      key,
+      label: `${FILTER_LABELS[key]}: ${value ? 'Yes' : 'No'}`,
+      onDelete: () => dispatch({ type: FILTER_ACTIONS.CLEAR, key }),
+    });
+  });
+  if (filters.yearRange) {
+    const [from, to] = filters.yearRange;
+    chips.push({
+      key: 'yearRange',
+      label: `${FILTER_LABELS.yearRange}: ${from === to ? from : `${from} – ${to}`}`,
+      onDelete: () => dispatch({ type: FILTER_ACTIONS.CLEAR, key: 'yearRange' }),
+    });
+  }
+
+  return (
+    <Paper elevation={1} sx={{ padding: 1 }}>
+      <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap'>
+        {selectors.map(({ key, options }) => (
+          <Autocomplete
+            key={key}
+            multiple
+            size='small'
+            options={options}
+            value={filters[key]}
+            onChange={(_, values) => dispatch({ type: FILTER_ACTIONS.SET_VALUES, key, values })}
+            renderValue={() => null}
+            renderInput={params => (
+              <TextField {...params} label={FILTER_LABELS[key]} placeholder={filters[key].length ? '' : 'All'} />
+            )}
+            sx={{ width: 200 }}
+          />
+        ))}
+        {FLAG_FILTER_KEYS.map((key: FlagFilterKey) => (
+          <Stack key={key} direction='row' spacing={1} alignItems='center'>
+            <Typography variant='body2'>{FILTER_LABELS[key]}</Typography>
+            <ToggleButtonGroup
+              exclusive
+              size='small'
+              value={flagToValue(filters[key])}
+              onChange={(_, value) => value && dispatch({ type: FILTER_ACTIONS.SET_FLAG, key, value: valueToFlag(value) })}
+            >
+              <ToggleButton value='any'>Any</ToggleButton>
+              <ToggleButton value='yes'>Yes</ToggleButton>
+              <ToggleButton value='no'>No</ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+        ))}
+        <Button
+          variant='contained'
+          size='small'
+          disabled={!hasActiveFilters(filters)}
+          onClick={() => dispatch({ type: FILTER_ACTIONS.RESET })}
+        >
+          Reset filters
+        </Button>
+      </Stack>
+      {chips.length > 0 && (
+        <Stack direction='row' spacing={1} useFlexGap flexWrap='wrap' sx={{ mt: 1 }}>
+          {chips.map(chip => (
+            <Chip key={chip.key} size='small' label={chip.label} onDelete={chip.onDelete} />
+          ))}
+        </Stack>
+      )}
+      <div aria-live='polite' style={visuallyHidden}>
+        {hasActiveFilters(filters) ? `${filtered?.count ?? 0} of ${summary.rows} books match the filters` : `All ${summary.rows} books shown`}
+      </div>
+    </Paper>
+  );
+}
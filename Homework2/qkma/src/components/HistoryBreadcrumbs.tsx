@@ -0,0 +1,41 @@
+import React from 'react';
+import { Paper, Stack, Button, Breadcrumbs, Link, Typography } from '@mui/material';
+import { useHistory } from '../stores/HistoryContext';
+
+// The exploration path up to the current step; clicking a step goes back to it.
+export default function HistoryBreadcrumbs() {
+  const { history, undo, redo, jumpTo } = useHistory();
+  const { past, present, future } = history;
+
+  return (
+    <Paper elevation={1} sx={{ padding: 1 }}>
+      <Stack direction='row' spacing={2} alignItems='center'>
+        <Stack direction='row' spacing={1}>
+          <Button size='small' variant='outlined' disabled={past.length === 0} onClick={undo} title='Undo (Ctrl+Z)'>
+            Undo
+          </Button>
+          <Button size='small' variant='outlined' disabled={future.length === 0} onClick={redo} title='Redo (Ctrl+Shift+Z)'>
+            Redo
+          </Button>
+        </Stack>
+        <Breadcrumbs maxItems={8} itemsBeforeCollapse={1} itemsAfterCollapse={5} aria-label='Exploration path'>
+          {past.map((entry, i) => (
+            <Link
+              key={i}
+              component='button'
+              variant='body2'
+              underline='hover'
+              color='inherit'
+              onClick={() => jumpTo(i)}
+            >
+              {entry.label}
+            </Link>
+          ))}
+          <Typography variant='body2' color='text.primary' aria-current='step'>
+            {present.label}
+          </Typography>
+        </Breadcrumbs>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import * as d3 from 'd3';
+import { Alert, Box, LinearProgress, Typography } from '@mui/material';
+import { useBooks } from '../stores/BookDataContext';
+
+const formatCount = d3.format(',');
+const formatBytes = d3.format('.3~s');
+
+// Shows how far the csv has been streamed in, or why it failed to load.
+export default function LoadingProgress() {
+  const { loading, error, progress } = useBooks();
+
+  if (error) return <Alert severity='error'>Could not load the books: {error.message}</Alert>;
+  if (!loading) return null;
+
+  const total = progress?.totalBytes ?? null;
+  return (
+    <Box>
+      <LinearProgress
+        variant={progress && total ? 'determinate' : 'indeterminate'}
+        value={progress && total ? Math.min(100, (progress.bytes / total) * 100) : undefined}
+      />
+      <Typography variant='caption' color='text.secondary' role='status'>
+        {progress
+          ? `Loading books… ${formatCount(progress.rows)} rows (${formatBytes(progress.bytes)}B${total ? ` of ${formatBytes(total)}B` : ''})`
+          : 'Loading books…'}
+      </Typography>
+    </Box>
+  );
+}
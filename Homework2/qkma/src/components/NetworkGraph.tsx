@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import * as d3 from 'd3';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { Box, Stack, TextField, Slider, Typography, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { ComponentSize } from '../types';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, NetworkSizeBy } from '../stores/ViewReducer';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import { summarizeStats } from '../utils/summary';
+import { mergeStats, GroupKey, RollupRow, RollupStats } from '../utils/rollup';
+import { useBooks } from '../stores/BookDataContext';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import ChartDataTable from './ChartDataTable';
+import ExportMenu from './ExportMenu';
+import { useChartTheme } from '../stores/ThemeContext';
+
+type NodeKind = 'author' | 'publisher';
+
+interface NetworkNode extends d3.SimulationNodeDatum {
+  // unique across kinds, an author may share a name with a publisher
+  id: string;
+  name: string;
+  kind: NodeKind;
+  // the node's books, for the tooltip and drill-down
+  stats: RollupStats;
+  count: number;
+  // lowest id among the node's books, the csv is ordered by swap rank
+  bestRank: number;
+  // number of distinct authors/publishers the node shares books with
+  degree: number;
+}
+
+interface NetworkLink extends d3.SimulationLinkDatum<NetworkNode> {
+  id: string;
+  source: string | NetworkNode;
+  target: string | NetworkNode;
+  count: number;
+}
+
+const KIND_LABELS: Record<NodeKind, string> = { publisher: 'Publisher', author: 'Author' };
+const MIN_RADIUS = 3;
+const MAX_RADIUS = 18;
+// the biggest nodes keep their label at any zoom level
+const LABELED_NODES = 12;
+
+const nodeId = (kind: NodeKind, name: string) => `${kind}|||${name}`;
+const endpoint = (end: string | NetworkNode) => (typeof end === 'string' ? end : end.id);
+
+// the publisher axis stays complete so the selected publishers can be highlighted
+const IGNORED_FILTERS: readonly FilterKey[] = ['publisher'];
+const AUTHOR_PUBLISHER: GroupKey[] = ['author', 'publisher'];
+
+export default function NetworkGraph() {
+  const rows = useRollup(AUTHOR_PUBLISHER, { ignore: IGNORED_FILTERS });
+  const { getBooks } = useBooks();
+  const { filters, dispatch } = useFilters();
+  const { view, dispatch: viewDispatch } = useView();
+  const { sizeBy, minDegree } = view.network;
+  const { tooltip, ...tooltipHandlers } = useTooltip();
+  const { openDrillDown } = useDrillDown();
+  const { chart } = useChartTheme();
+  const networkRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  // last simulated position of every node, so a redraw continues from the current layout
+  const positions = useRef(new Map<string, { x: number, y: number }>());
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+  const [search, setSearch] = useState('');
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: networkRef as React.RefObject<HTMLDivElement>, onResize });
+
+  // books without a known author or publisher would all meet in one "Unknown" hub
+  const graph = useMemo(() => {
+    // one row per author and publisher pair, i.e. per link
+    const known = rows.filter(d => d.keys[0] !== 'Unknown' && d.keys[1] !== 'Unknown');
+    const links: NetworkLink[] = known.map(({ keys: [author, publisher], value }) => {
+      const source = nodeId('author', author);
+      const target = nodeId('publisher', publisher);
+      return { id: `${source}>>>${target}`, source, target, count: value };
+    });
+    const nodeFor = (kind: NodeKind, index: number) => d3.groups(known, d => d.keys[index])
+      .map(([name, group]: [string, RollupRow[]]): NetworkNode => {
+        const stats = mergeStats(group);
+        return { id: nodeId(kind, name), name, kind, stats, count: stats.value, bestRank: stats.ids[0], degree: group.length };
+      });
+
+    return { nodes: [...nodeFor('author', 0), ...nodeFor('publisher', 1)], links, total: d3.sum(rows, d => d.value) };
+  }, [rows]);
+
+  const maxDegree = d3.max(graph.nodes, d => d.degree) ?? 1;
+
+  const visible = useMemo(() => {
+    const nodes = graph.nodes.filter(d => d.degree >= minDegree);
+    const kept = new Set(nodes.map(d => d.id));
+    const links = graph.links.filter(d => kept.has(endpoint(d.source)) && kept.has(endpoint(d.target)));
+    return { nodes, links };
+  }, [graph, minDegree]);
+
+  const exportRows = useMemo(() => visible.nodes.map(d => ({
+    kind: d.kind,
+    name: d.name,
+    books: d.count,
+    connections: d.degree,
+    best_rank: d.bestRank,
+  })), [visible]);
+
+  const nodeTitle = (node: NetworkNode) => `${KIND_LABELS[node.kind]}: ${node.name}`;
+  const nodeDetails = (node: NetworkNode): [string, string][] => [
+    [node.kind === 'author' ? 'Publishers' : 'Authors', String(node.degree)],
+    ['Best swap rank', `#${node.bestRank}`],
+  ];
+
+  function nodeContent(node: NetworkNode): TooltipContent {
+    return {
+      title: nodeTitle(node),
+      summary: summarizeStats(node.stats, graph.total),
+      shareLabel: 'of the shown books',
+      details: nodeDetails(node),
+      hint: node.kind === 'publisher'
+        ? 'Click to filter by publisher, shift+click to list the books, drag to move'
+        : 'Click to list the books, drag to move',
+    };
+  }
+
+  function clickNode(event: MouseEvent, node: NetworkNode) {
+    if (event.defaultPrevented) return; // end of a drag
+    if (node.kind === 'publisher' && !event.shiftKey) {
+      dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'publisher', value: node.name });
+    } else {
+      getBooks(node.stats.ids).then(books => openDrillDown(`${KIND_LABELS[node.kind]}: ${node.name}`, books));
+    }
+  }
+
+  // the simulation restarts whenever the visible graph changes, starting from the old positions
+  useEffect(() => {
+    if (size.width === 0 || size.height === 0) return;
+    const w = size.width;
+    const h = size.height;
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+
+    const nodes: NetworkNode[] = visible.nodes.map(d => ({ ...d, ...positions.current.get(d.id) }));
+    const links: NetworkLink[] = visible.links.map(d => ({ ...d }));
+
+    const radius = sizeBy === 'books'
+      ? d3.scaleSqrt().domain([0, d3.max(nodes, d => d.count) || 1]).range([MIN_RADIUS, MAX_RADIUS])
+      : d3.scaleLinear().domain(d3.extent(nodes, d => d.bestRank).reverse() as [number, number]).range([MIN_RADIUS, MAX_RADIUS]).clamp(true);
+    const r = (d: NetworkNode) => (sizeBy === 'books' ? radius(d.count) : radius(d.bestRank));
+    const linkWidth = d3.scaleSqrt().domain([1, d3.max(links, d => d.count) || 1]).range([1, 4]);
+    const labeled = new Set(nodes.slice().sort((a, b) => r(b) - r(a)).slice(0, LABELED_NODES).map(d => d.id));
+
+    // background catches the pan and zoom gestures
+    ensureLayer<SVGRectElement>(svg, 'background', 'rect')
+      .attr('width', w)
+      .attr('height', h);
+
+    const graphLayer = ensureLayer(svg, 'graph');
+
+    const link = ensureLayer(graphLayer, 'links')
+      .attr('stroke-opacity', 0.5)
+      .selectAll<SVGLineElement, NetworkLink>('line')
+      .data(links, d => d.id)
+      .join('line')
+      .attr('stroke-width', d => linkWidth(d.count));
+
+    const nodeLayer = ensureLayer(graphLayer, 'nodes');
+    const rows = new Map(d3.groups(nodes, d => d.kind)
+      .flatMap(([, v]) => v.sort((a, b) => b.count - a.count || a.bestRank - b.bestRank).map((d, i) => [d.id, i] as const)));
+    const node = nodeLayer
+      .selectAll<SVGCircleElement, NetworkNode>('circle')
+      .data(nodes, d => d.id)
+      .join('circle')
+      .attr('r', r)
+      .style('cursor', 'pointer')
+      .on('click', clickNode)
+      .call(circle => attachTooltip(circle, tooltipHandlers, nodeContent, d => describeMark(nodeTitle(d), d.count, nodeDetails(d))))
+      .call(circle => setGridPosition(circle, d => rows.get(d.id)!, d => (d.kind === 'publisher' ? 0 : 1)));
+    enableKeyboardNavigation(nodeLayer);
+
+    const label = ensureLayer(graphLayer, 'labels')
+      .style('pointer-events', 'none')
+      .selectAll<SVGTextElement, NetworkNode>('text')
+      .data(nodes.filter(d => labeled.has(d.id)), d => d.id)
+      .join('text')
+      .attr('text-anchor', 'middle')
+      .style('font-size', '11px')
+      .text(d => d.name);
+
+    const simulation = d3.forceSimulation(nodes)
+      .force('link', d3.forceLink<NetworkNode, NetworkLink>(links).id(d => d.id).distance(d => 20 + r(d.source as NetworkNode) + r(d.target as NetworkNode)))
+      .force('charge', d3.forceManyBody<NetworkNode>().strength(-40))
+      .force('collide', d3.forceCollide<NetworkNode>(d => r(d) + 1))
+      .force('x', d3.forceX(w / 2).strength(0.05))
+      .force('y', d3.forceY(h / 2).strength(0.05))
+      .on('tick', () => {
+        link
+          .attr('x1', d => (d.source as NetworkNode).x!)
+          .attr('y1', d => (d.source as NetworkNode).y!)
+          .attr('x2', d => (d.target as NetworkNode).x!)
+          .attr('y2', d => (d.target as NetworkNode).y!);
+        node.attr('cx', d => d.x!).attr('cy', d => d.y!);
+        label.attr('x', d => d.x!).attr('y', d => d.y! - r(d) - 3);
+        nodes.forEach(d => positions.current.set(d.id, { x: d.x!, y: d.y! }));
+      });
+    // a graph that was laid out before only needs a gentle nudge
+    if (nodes.every(d => positions.current.has(d.id))) simulation.alpha(0.3);
+
+    node.call(d3.drag<SVGCircleElement, NetworkNode>()
+      .on('start', (event: d3.D3DragEvent<SVGCircleElement, NetworkNode, NetworkNode>, d) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        d.fx = d.x;
+        d.fy = d.y;
+      })
+      .on('drag', (event: d3.D3DragEvent<SVGCircleElement, NetworkNode, NetworkNode>, d) => {
+        d.fx = event.x;
+        d.fy = event.y;
+      })
+      .on('end', (event: d3.D3DragEvent<SVGCircleElement, NetworkNode, NetworkNode>, d) => {
+        if (!event.active) simulation.alphaTarget(0);
+        d.fx = null;
+        d.fy = null;
+      }));
+
+    return () => {
+      simulation.stop();
+    };
+  }, [visible, size, sizeBy]);
+
+  // pan and zoom are attached once and keep their transform across redraws
+  useEffect(() => {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    svg.call(d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.2, 8])
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => svg.select('g.graph').attr('transform', event.transform.toString())));
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, []);
+
+  // search, the publisher filter and the color theme only restyle the marks, the layout keeps running
+  useEffect(() => {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const query = search.trim().toLowerCase();
+    const matches = new Set(query ? visible.nodes.filter(d => d.name.toLowerCase().includes(query)).map(d => d.id) : []);
+    const selected = new Set(filters.publisher.map(name => nodeId('publisher', name)));
+    const highlighted = (id: string) => (matches.size === 0 || matches.has(id)) && (selected.size === 0 || selected.has(id));
+    const touches = (d: NetworkLink) => highlighted(endpoint(d.source)) || highlighted(endpoint(d.target));
+
+    svg.select('rect.background').attr('fill', chart.background);
+    svg.select('g.nodes').selectAll<SVGCircleElement, NetworkNode>('circle')
+      .attr('fill', d => (d.kind === 'publisher' ? chart.categorical[0] : chart.categorical[3]))
+      .attr('opacity', d => (highlighted(d.id) ? 1 : 0.15))
+      .attr('stroke', d => (matches.has(d.id) ? chart.emphasis : chart.separator))
+      .attr('stroke-width', d => (matches.has(d.id) ? 2 : 1));
+    svg.select('g.links').attr('stroke', chart.muted).selectAll<SVGLineElement, NetworkLink>('line')
+      .attr('opacity', d => (touches(d) ? 1 : 0.15));
+    svg.select('g.labels').selectAll<SVGTextElement, NetworkNode>('text')
+      .attr('opacity', d => (highlighted(d.id) ? 1 : 0.15));
+  }, [search, visible, size, sizeBy, filters.publisher, chart]);
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+        <TextField
+          size='small'
+          label='Search authors and publishers'
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          sx={{ width: 260 }}
+        />
+        <Stack direction='row' spacing={1} alignItems='center' sx={{ width: 260 }}>
+          <Typography variant='body2' sx={{ whiteSpace: 'nowrap' }}>Min. connections</Typography>
+          <Slider
+            size='small'
+            min={1}
+            max={Math.max(2, maxDegree)}
+            step={1}
+            marks
+            valueLabelDisplay='auto'
+            value={minDegree}
+            onChange={(_, value) => viewDispatch({ type: VIEW_ACTIONS.SET_NETWORK_MIN_DEGREE, minDegree: value as number })}
+          />
+        </Stack>
+        <ToggleButtonGroup
+          exclusive
+          size='small'
+          value={sizeBy}
+          onChange={(_, value: NetworkSizeBy | null) => value && viewDispatch({ type: VIEW_ACTIONS.SET_NETWORK_SIZE_BY, sizeBy: value })}
+        >
+          <ToggleButton value='books'>Size by books</ToggleButton>
+          <ToggleButton value='rank'>Size by swap rank</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+      <div ref={networkRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width='100%'
+          height='100%'
+          role='group'
+          aria-label={chartLabel('Authors and publishers linked by shared books', 'publishers and authors')}
+        />
+        <ChartDataTable
+          caption='Authors and publishers linked by shared books'
+          columns={[
+            { label: 'Type', value: d => KIND_LABELS[d.kind] },
+            { label: 'Name', value: d => d.name },
+            { label: 'Books', value: d => d.count },
+            { label: 'Connections', value: d => d.degree },
+            { label: 'Best swap rank', value: d => d.bestRank },
+          ]}
+          rows={visible.nodes}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu
+            svgRef={svgRef}
+            fileName='author-publisher-network'
+            rows={exportRows}
+            json={{
+              nodes: exportRows,
+              links: visible.links.map(d => ({ source: endpoint(d.source), target: endpoint(d.target), books: d.count })),
+            }}
+          />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import * as d3 from 'd3';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { Box } from '@mui/material';
+import { Book, ComponentSize, Margin } from '../types';
+import { useBooks } from '../stores/BookDataContext';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { isAbortError } from '../workers/client';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import { summarizeStats } from '../utils/summary';
+import { mergeStats, GroupKey, RollupRow, RollupStats } from '../utils/rollup';
+import { OTHER } from '../utils/dimensions';
+import { usesCanvas, drawCanvasMarks, clearCanvas, canvasHitTester, attachCanvasInteraction, attachCanvasFocus, CanvasMark, Renderer, CANVAS_STYLE } from '../utils/canvas';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import ChartDataTable from './ChartDataTable';
+import ExportMenu from './ExportMenu';
+import { useChartTheme, useCategoryColor } from '../stores/ThemeContext';
+
+interface RatingsChartProps {
+  title?: string;
+  // genres with the most books get their own box, the rest share one "Other" box
+  maxGenres?: number;
+  // 'auto' draws the outlier dots on a canvas when there are too many for SVG
+  renderer?: Renderer;
+}
+
+// Tukey box plot of the ratings in one genre
+interface RatingBox {
+  genre: string;
+  count: number;
+  q1: number;
+  median: number;
+  q3: number;
+  // whiskers end at the most extreme ratings within 1.5 IQR of the box
+  low: number;
+  high: number;
+  // ids of the books outside the whiskers, and the books once they are fetched
+  outlierIds: number[];
+  outliers: Book[];
+}
+
+interface Outlier {
+  genre: string;
+  book: Book;
+}
+
+const rating = d3.format('.2f');
+
+// the genre axis stays complete so the selected genres can be highlighted
+const IGNORED_FILTERS: readonly FilterKey[] = ['genre'];
+// books without a rating get no row
+const GENRE_RATING: GroupKey[] = ['genre', 'rating'];
+const NO_BOOKS = new Map<number, Book>();
+
+// d3.quantileSorted over every book's rating, from rows of books sharing a rating
+// sorted by it, without listing the ratings one by one
+function quantileOf(rows: RollupRow[], p: number) {
+  const n = d3.sum(rows, d => d.count);
+  const at = (index: number) => {
+    let seen = 0;
+    for (const row of rows) {
+      seen += row.count;
+      if (index < seen) return +row.keys[1];
+    }
+    return +rows[rows.length - 1].keys[1];
+  };
+  const i = (n - 1) * p;
+  const i0 = Math.floor(i);
+  const value0 = at(i0);
+  return value0 + (at(i0 + 1) - value0) * (i - i0);
+}
+
+function boxOf(genre: string, rows: RollupRow[]): Omit<RatingBox, 'outliers'> {
+  const sorted = rows.slice().sort((a, b) => +a.keys[1] - +b.keys[1]);
+  const q1 = quantileOf(sorted, 0.25);
+  const median = quantileOf(sorted, 0.5);
+  const q3 = quantileOf(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  const isInside = (row: RollupRow) => +row.keys[1] >= q1 - fence && +row.keys[1] <= q3 + fence;
+  const inside = sorted.filter(isInside).map(d => +d.keys[1]);
+  return {
+    genre,
+    count: d3.sum(rows, d => d.value),
+    q1,
+    median,
+    q3,
+    low: d3.min(inside) ?? q1,
+    high: d3.max(inside) ?? q3,
+    outlierIds: sorted.filter(row => !isInside(row)).flatMap(row => row.ids),
+  };
+}
+
+export default function RatingsChart({ title = 'Average Rating by Genre', maxGenres = 15, renderer = 'auto' }: RatingsChartProps) {
+  const { summary, getBooks } = useBooks();
+  const rows = useRollup(GENRE_RATING, { ignore: IGNORED_FILTERS });
+  const { filters, dispatch } = useFilters();
+  const { tooltip, ...tooltipHandlers } = useTooltip();
+  const { openDrillDown } = useDrillDown();
+  const { chart } = useChartTheme();
+  const categoryColor = useCategoryColor();
+  const ratingsRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+
+  const margin: Margin = { top: 0.12, right: 0.04, bottom: 0.3, left: 0.08 };
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: ratingsRef as React.RefObject<HTMLDivElement>, onResize });
+
+  // the rating axis comes from the whole dataset so it stays put while filtering
+  const ratingExtent = summary.ratingExtent;
+
+  // the rated books of each box, for the tooltips and drill-downs
+  const { summaries, genreStats, total } = useMemo(() => {
+    const topGenres = new Set(
+      Array.from(d3.rollup(rows, v => d3.sum(v, d => d.value), d => d.keys[0]))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxGenres)
+        .map(d => d[0])
+    );
+    const grouped = d3.group(rows, d => (topGenres.has(d.keys[0]) ? d.keys[0] : OTHER));
+
+    // sorted by median rating, "Other" last
+    const summaries = Array.from(grouped, ([genre, v]) => boxOf(genre, v))
+      .sort((a, b) => (a.genre === OTHER ? 1 : 0) - (b.genre === OTHER ? 1 : 0)
+        || d3.descending(a.median, b.median) || d3.ascending(a.genre, b.genre));
+    const genreStats = new Map(Array.from(grouped, ([genre, v]): [string, RollupStats] => [genre, mergeStats(v)]));
+    return { summaries, genreStats, total: d3.sum(rows, d => d.value) };
+  }, [rows, maxGenres]);
+
+  // the outliers are drawn one dot per book, so their books are fetched
+  const [outlierBooks, setOutlierBooks] = useState(NO_BOOKS);
+  useEffect(() => {
+    const ids = summaries.flatMap(d => d.outlierIds);
+    if (ids.length === 0) {
+      setOutlierBooks(NO_BOOKS);
+      return;
+    }
+    const controller = new AbortController();
+    getBooks(ids, controller.signal)
+      .then(books => setOutlierBooks(new Map(books.map(book => [book.id, book]))))
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Error fetching the outliers:', error);
+      });
+    return () => controller.abort();
+  }, [summaries, getBooks]);
+
+  const boxes = useMemo((): RatingBox[] => summaries.map(box => ({
+    ...box,
+    outliers: box.outlierIds.filter(id => outlierBooks.has(id)).map(id => outlierBooks.get(id)!),
+  })), [summaries, outlierBooks]);
+
+  const exportRows = useMemo(() => summaries.map(({ outlierIds, ...box }) => ({ ...box, outliers: outlierIds.length })), [summaries]);
+
+  useEffect(() => {
+    if (!ratingExtent || size.width === 0 || size.height === 0) return;
+    drawChart(ratingExtent);
+  }, [boxes, size, ratingExtent, filters.genre, chart, categoryColor, renderer]);
+
+  // "Other" has no genre to filter by
+  function toggleGenre(genre: string) {
+    if (genre !== OTHER) dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'genre', value: genre });
+  }
+
+  function boxContent(box: RatingBox): TooltipContent {
+    return {
+      title: box.genre,
+      summary: summarizeStats(genreStats.get(box.genre)!, total),
+      shareLabel: 'of rated books',
+      details: [
+        ['Median', rating(box.median)],
+        ['Middle half', `${rating(box.q1)} – ${rating(box.q3)}`],
+        ['Outliers', String(box.outlierIds.length)],
+      ],
+      hint: box.genre === OTHER
+        ? 'Shift+click to list the books'
+        : 'Click to filter by genre, shift+click to list the books',
+    };
+  }
+
+  function outlierContent({ genre, book }: Outlier): TooltipContent {
+    return {
+      title: book.title,
+      summary: summarizeStats(
+        { value: book.weight, count: 1, ratingSum: book.rating_average, ratingCount: 1, ids: [book.id] },
+        genreStats.get(genre)!.value,
+        0,
+      ),
+      shareLabel: `of ${genre}`,
+      details: [['Author', book.author], ['Rating', rating(book.rating_average)]],
+      hint: 'Click to show the book',
+    };
+  }
+
+  function drawChart([minRating, maxRating]: [number, number]) {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const t = svg.transition().duration(TRANSITION_MS);
+    const w = size.width;
+    const h = size.height;
+
+    const leftMargin = margin.left * w;
+    const rightMargin = margin.right * w;
+    const topMargin = margin.top * h;
+    const bottomMargin = margin.bottom * h;
+
+    const x = d3.scaleBand()
+      .domain(boxes.map(d => d.genre))
+      .range([leftMargin, w - rightMargin])
+      .padding(0.3);
+
+    const y = d3.scaleLinear()
+      .domain([minRating, maxRating])
+      .nice()
+      .range([h - bottomMargin, topMargin]);
+
+    const selected = new Set(filters.genre);
+    const isSelected = (genre: string) => selected.size === 0 || selected.has(genre);
+    const center = (genre: string) => x(genre)! + x.bandwidth() / 2;
+    const columnOf = new Map(boxes.map((d, i) => [d.genre, i]));
+
+    // boxes, keyed by genre so they slide when the median order changes
+    const boxLayer = ensureLayer(svg, 'boxes');
+    const boxG = boxLayer
+      .selectAll<SVGGElement, RatingBox>('g')
+      .data(boxes, d => d.genre)
+      .join(
+        enter => {
+          const g = enter.append('g')
+            .attr('transform', d => `translate(${center(d.genre)},0)`)
+            .attr('opacity', 0);
+          g.append('line').attr('class', 'whisker');
+          g.append('rect').attr('class', 'box').style('cursor', 'pointer');
+          g.append('line').attr('class', 'median').attr('stroke-width', 2);
+          return g;
+        },
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove()
+      );
+
+    boxG.selectAll('line, rect').attr('stroke', chart.outline);
+
+    boxG.transition(t)
+      .attr('transform', d => `translate(${center(d.genre)},0)`)
+      .attr('opacity', d => (isSelected(d.genre) ? 1 : 0.35));
+
+    boxG.select<SVGLineElement>('line.whisker')
+      .transition(t)
+      .attr('y1', d => y(d.low))
+      .attr('y2', d => y(d.high));
+
+    boxG.select<SVGRectElement>('rect.box')
+      .on('click', (event: MouseEvent, d) => {
+        if (event.shiftKey) getBooks(genreStats.get(d.genre)!.ids).then(books => openDrillDown(`${d.genre} · ratings`, books));
+        else toggleGenre(d.genre);
+      })
+      .call(rect => attachTooltip(rect, tooltipHandlers, boxContent, d => describeMark(d.genre, d.count, [['Median', rating(d.median)]])))
+      .call(rect => setGridPosition(rect, () => 0, d => columnOf.get(d.genre)!))
+      .transition(t)
+      .attr('x', -x.bandwidth() / 2)
+      .attr('width', x.bandwidth())
+      .attr('y', d => y(d.q3))
+      .attr('height', d => Math.max(1, y(d.q1) - y(d.q3)))
+      .attr('fill', d => categoryColor('genre', d.genre));
+
+    boxG.select<SVGLineElement>('line.median')
+      .style('pointer-events', 'none')
+      .transition(t)
+      .attr('x1', -x.bandwidth() / 2)
+      .attr('x2', x.bandwidth() / 2)
+      .attr('y1', d => y(d.median))
+      .attr('y2', d => y(d.median));
+
+    // outliers, one dot per book
+    const outliers: Outlier[] = boxes.flatMap(box => box.outliers.map(book => ({ genre: box.genre, book })));
+    const outlierRow = new Map(d3.groups(outliers, d => d.genre)
+      .flatMap(([, v]) => v
+        .sort((a, b) => d3.descending(a.book.rating_average, b.book.rating_average))
+        .map((d, i) => [d.book.id, i] as const)));
+
+    const radius = Math.max(2.5, Math.min(5, x.bandwidth() / 6));
+    const showOutlier = (_: MouseEvent, d: Outlier) => openDrillDown(d.book.title, [d.book]);
+    const outlierLabel = ({ book }: Outlier) => describeMark(book.title, 1, [['Rating', rating(book.rating_average)]]);
+    // stands in for the canvas dots when they get keyboard focus
+    const focusLayer = ensureLayer(svg, 'outlier-focus');
+
+    // many dots are drawn on the canvas instead
+    const canvasMode = usesCanvas(renderer, outliers.length);
+    if (canvasMode) {
+      const marks = outliers.map((d): CanvasMark<Outlier> => ({
+        shape: 'circle',
+        datum: d,
+        cx: center(d.genre),
+        cy: y(d.book.rating_average),
+        r: radius,
+        fill: chart.highlight,
+        stroke: chart.separator,
+        opacity: isSelected(d.genre) ? 1 : 0.35,
+      }));
+      drawCanvasMarks(canvasRef.current!, w, h, marks);
+      attachCanvasInteraction(svg, canvasHitTester(marks), {
+        show: (event, d) => tooltipHandlers.show(event, outlierContent(d)),
+        move: tooltipHandlers.move,
+        hide: tooltipHandlers.hide,
+        click: showOutlier,
+      });
+      attachCanvasFocus(focusLayer, marks, {
+        position: d => ({ row: outlierRow.get(d.book.id)!, col: columnOf.get(d.genre)! }),
+        label: outlierLabel,
+        show: (event, d) => tooltipHandlers.show(event, outlierContent(d)),
+        hide: tooltipHandlers.hide,
+        click: showOutlier,
+      });
+    } else {
+      clearCanvas(canvasRef.current!);
+      attachCanvasInteraction(svg, null);
+      attachCanvasFocus(focusLayer, null);
+    }
+
+    const outlierLayer = ensureLayer(svg, 'outliers');
+    outlierLayer
+      .selectAll<SVGCircleElement, Outlier>('circle')
+      .data(canvasMode ? [] : outliers, d => d.book.id)
+      .join(
+        enter => enter.append('circle')
+          .attr('cx', d => center(d.genre))
+          .attr('cy', d => y(d.book.rating_average))
+          .attr('r', 0),
+        update => update,
+        exit => exit.transition(t).attr('r', 0).remove()
+      )
+      .attr('fill', chart.highlight)
+      .attr('stroke', chart.separator)
+      .style('cursor', 'pointer')
+      .on('click', showOutlier)
+      .call(circle => attachTooltip(circle, tooltipHandlers, outlierContent, outlierLabel))
+      .call(circle => setGridPosition(circle, d => outlierRow.get(d.book.id)!, d => columnOf.get(d.genre)!))
+      .transition(t)
+      .attr('cx', d => center(d.genre))
+      .attr('cy', d => y(d.book.rating_average))
+      .attr('r', radius)
+      .attr('opacity', d => (isSelected(d.genre) ? 1 : 0.35));
+
+    enableKeyboardNavigation(boxLayer);
+    enableKeyboardNavigation(outlierLayer);
+
+    // x
+    ensureLayer(svg, 'x-axis')
+      .attr('transform', `translate(0, ${h - bottomMargin})`)
+      .transition(t)
+      .call(d3.axisBottom(x))
+      .selectAll('text')
+      .attr('text-anchor', 'end')
+      .attr('transform', 'rotate(-45)')
+      .attr('dx', '-0.6em')
+      .attr('dy', '0.35em');
+
+    // y
+    ensureLayer(svg, 'y-axis')
+      .attr('transform', `translate(${leftMargin},0)`)
+      .transition(t)
+      .call(d3.axisLeft(y).ticks(6));
+
+    // title
+    ensureLayer<SVGTextElement>(svg, 'title', 'text')
+      .attr('x', w / 2)
+      .attr('y', topMargin / 2)
+      .attr('text-anchor', 'middle')
+      .style('font-size', `${0.025 * w}px`)
+      .style('font-weight', 'bold')
+      .text(title);
+
+    // y label
+    ensureLayer<SVGTextElement>(svg, 'y-label', 'text')
+      .attr('transform', `translate(${leftMargin * 0.4}, ${topMargin + (h - topMargin - bottomMargin) / 2}) rotate(-90)`)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '12px')
+      .text('Average rating');
+  }
+
+  return (
+    <div ref={ratingsRef} style={{ width: '100%', height: '100%', position: 'relative' }}>
+      <svg
+        ref={svgRef}
+        width='100%'
+        height='100%'
+        role='group'
+        aria-label={chartLabel(title, 'genres or outlier books')}
+      />
+      <canvas ref={canvasRef} className='chart-canvas' aria-hidden style={CANVAS_STYLE} />
+      <ChartDataTable
+        caption={title}
+        columns={[
+          { label: 'Genre', value: d => d.genre },
+          { label: 'Books', value: d => d.count },
+          { label: 'Lower quartile', value: d => rating(d.q1) },
+          { label: 'Median', value: d => rating(d.median) },
+          { label: 'Upper quartile', value: d => rating(d.q3) },
+          { label: 'Outliers', value: d => d.outliers.map(b => `${b.title} (${rating(b.rating_average)})`).join(', ') || 'None' },
+        ]}
+        rows={boxes}
+      />
+      <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+        <ExportMenu svgRef={svgRef} fileName='rating-by-genre' rows={exportRows} />
+      </Box>
+      <ChartTooltip tooltip={tooltip} />
+    </div>
+  );
+}
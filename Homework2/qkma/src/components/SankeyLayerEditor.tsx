@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Stack, Chip, TextField, MenuItem, Button, Typography } from '@mui/material';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, MIN_SANKEY_LAYERS } from '../stores/ViewReducer';
+import { getDimension, DimensionKey } from '../utils/dimensions';
+import { useBooks } from '../stores/BookDataContext';
+
+// Picks the Sankey layers, their order (drag the chips) and the per-layer top-N cutoff.
+export default function SankeyLayerEditor() {
+  const { view, dispatch } = useView();
+  const { dataset } = useBooks();
+  const { layers, topN } = view.sankey;
+  const [dragged, setDragged] = useState<number | null>(null);
+
+  const unused = dataset.dimensions.filter(key => !layers.includes(key));
+  const setLayers = (next: DimensionKey[]) => dispatch({ type: VIEW_ACTIONS.SET_SANKEY_LAYERS, layers: next });
+
+  function moveLayer(from: number, to: number) {
+    if (from === to) return;
+    const next = layers.slice();
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setLayers(next);
+  }
+
+  return (
+    <Stack direction='row' spacing={1} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+      <Typography variant='body2'>Layers:</Typography>
+      {layers.map((key, i) => (
+        <Chip
+          key={key}
+          size='small'
+          label={`${i + 1}. ${getDimension(key).label}`}
+          draggable
+          onDragStart={event => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDragged(i);
+          }}
+          onDragOver={event => event.preventDefault()}
+          onDrop={event => {
+            event.preventDefault();
+            if (dragged !== null) moveLayer(dragged, i);
+            setDragged(null);
+          }}
+          onDragEnd={() => setDragged(null)}
+          onDelete={layers.length > MIN_SANKEY_LAYERS ? () => setLayers(layers.filter(l => l !== key)) : undefined}
+          sx={{ cursor: 'grab', opacity: dragged === i ? 0.5 : 1 }}
+        />
+      ))}
+      <TextField
+        select
+        size='small'
+        label='Add layer'
+        value=''
+        disabled={unused.length === 0}
+        onChange={event => setLayers([...layers, event.target.value as DimensionKey])}
+        sx={{ width: 160 }}
+      >
+        {unused.map(key => <MenuItem key={key} value={key}>{getDimension(key).label}</MenuItem>)}
+      </TextField>
+      <TextField
+        type='number'
+        size='small'
+        label='Top N per layer'
+        value={topN}
+        onChange={event => {
+          const value = +event.target.value;
+          if (value >= 1) dispatch({ type: VIEW_ACTIONS.SET_SANKEY_TOP_N, topN: value });
+        }}
+        slotProps={{ htmlInput: { min: 1 } }}
+        sx={{ width: 130 }}
+      />
+      <Button size='small' onClick={() => dispatch({ type: VIEW_ACTIONS.RESET_SANKEY, layers: dataset.sankeyLayers })}>Reset layers</Button>
+    </Stack>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { Paper, Box, Typography, ButtonBase } from '@mui/material';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { GroupKey } from '../utils/rollup';
+import { useChartTheme } from '../stores/ThemeContext';
+
+interface TagCloudProps {
+  // most frequent tags shown
+  maxTags?: number;
+}
+
+const MIN_FONT = 11;
+const MAX_FONT = 36;
+
+// the tag views show every tag and highlight the selected ones
+const IGNORED_FILTERS: readonly FilterKey[] = ['tags'];
+const TAG: GroupKey[] = ['tag'];
+
+// Tags sized by how many of the filtered books carry them; click a tag to filter by it.
+export default function TagCloud({ maxTags = 80 }: TagCloudProps) {
+  const rows = useRollup(TAG, { ignore: IGNORED_FILTERS, ids: false });
+  const { filters, dispatch } = useFilters();
+  const { chart } = useChartTheme();
+
+  // most frequent first
+  const counts = useMemo(() => rows
+    .map((row): [string, number] => [row.keys[0], row.value])
+    .sort((a, b) => b[1] - a[1] || d3.ascending(a[0], b[0]))
+    .slice(0, maxTags), [rows, maxTags]);
+  const fontSize = d3.scaleSqrt()
+    .domain([d3.min(counts, d => d[1]) ?? 0, d3.max(counts, d => d[1]) ?? 1])
+    .range([MIN_FONT, MAX_FONT]);
+  const color = d3.interpolateRgb(chart.muted, chart.accent);
+
+  // alphabetical, so a tag stays roughly in place while filtering
+  const sorted = counts.slice().sort((a, b) => d3.ascending(a[0], b[0]));
+  const selected = new Set(filters.tags);
+
+  return (
+    <Paper elevation={0} sx={{ width: '100%', height: '100%', overflowY: 'auto', padding: 1, boxSizing: 'border-box' }}>
+      {sorted.length === 0 && <Typography variant='body2' color='text.secondary'>No tags in the filtered books</Typography>}
+      <Box component='ul' sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'baseline', gap: 1, listStyle: 'none', margin: 0, padding: 0 }}>
+        {sorted.map(([tag, count]) => (
+          <li key={tag}>
+            <ButtonBase
+              aria-pressed={selected.has(tag)}
+              aria-label={`${tag}: ${count} books`}
+              title={`${count} books`}
+              onClick={() => dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'tags', value: tag })}
+              sx={{
+                fontSize: fontSize(count),
+                lineHeight: 1.1,
+                paddingX: 0.5,
+                borderRadius: 1,
+                color: color(fontSize.domain()[1] > 0 ? count / fontSize.domain()[1] : 0),
+                fontWeight: selected.has(tag) ? 'bold' : 'normal',
+                outline: selected.has(tag) ? `2px solid ${chart.accent}` : 'none',
+              }}
+            >
+              {tag}
+            </ButtonBase>
+          </li>
+        ))}
+      </Box>
+    </Paper>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import * as d3 from 'd3';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { Box, Stack, TextField, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { ComponentSize, Margin } from '../types';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey } from '../stores/FilterReducer';
+import { useDrillDown } from '../stores/DrillDownContext';
+import { useView } from '../stores/ViewContext';
+import { VIEW_ACTIONS, TagOrder } from '../stores/ViewReducer';
+import { ensureLayer, enableKeyboardNavigation, setGridPosition, TRANSITION_MS } from '../utils/chart';
+import { chartLabel } from '../utils/a11y';
+import { summarizeStats } from '../utils/summary';
+import { coOccurrence, clusterOrder } from '../utils/tags';
+import { emptyStats, GroupKey, RollupStats, ValueRestriction } from '../utils/rollup';
+import { useBooks } from '../stores/BookDataContext';
+import ChartTooltip, { attachTooltip, describeMark, useTooltip, TooltipContent } from './ChartTooltip';
+import ChartDataTable from './ChartDataTable';
+import ExportMenu from './ExportMenu';
+import { useChartTheme } from '../stores/ThemeContext';
+
+interface TagPair {
+  row: string;
+  col: string;
+  count: number;
+}
+
+// the tag views show every tag and highlight the selected ones
+const IGNORED_FILTERS: readonly FilterKey[] = ['tags'];
+const TAG: GroupKey[] = ['tag'];
+const TAG_PAIR: GroupKey[] = ['tag', 'tag'];
+
+export default function TagMatrix() {
+  const { getBooks } = useBooks();
+  const { filters, dispatch } = useFilters();
+  const { view, dispatch: viewDispatch } = useView();
+  const { order, topN } = view.tags;
+  const { chart } = useChartTheme();
+  const { tooltip, ...tooltipHandlers } = useTooltip();
+  const { openDrillDown } = useDrillDown();
+  const matrixRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+
+  const margin: Margin = { top: 0.22, right: 0.02, bottom: 0.02, left: 0.2 };
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: matrixRef as React.RefObject<HTMLDivElement>, onResize });
+
+  // the most frequent tags first, then the books carrying two of them
+  const counts = useRollup(TAG, { ignore: IGNORED_FILTERS, ids: false });
+  const frequent = useMemo(() => counts
+    .slice()
+    .sort((a, b) => b.value - a.value || d3.ascending(a.keys[0], b.keys[0]))
+    .slice(0, topN)
+    .map(d => d.keys[0]), [counts, topN]);
+  // asks again only when the most frequent tags change, not on every count
+  const frequentKey = frequent.join('\u0000');
+  const restrict = useMemo((): ValueRestriction[] => [{ key: 'tag', values: frequent }], [frequentKey]);
+  const pairRows = useRollup(TAG_PAIR, { ignore: IGNORED_FILTERS, restrict });
+
+  const { tags, pairs, pairStats } = useMemo(() => {
+    const matrix = coOccurrence(pairRows, frequent);
+    const tags = order === 'cluster' ? clusterOrder(frequent, matrix) : frequent;
+    const pairs: TagPair[] = [];
+    frequent.forEach((row, i) => frequent.forEach((col, j) => {
+      if (matrix[i][j] > 0) pairs.push({ row, col, count: matrix[i][j] });
+    }));
+    const pairStats = new Map(pairRows.map((d): [string, RollupStats] => [d.keys.join('|'), d]));
+    return { tags, pairs, pairStats };
+  }, [pairRows, frequentKey, order]);
+
+  // the diagonal holds the books carrying the tag at all
+  const statsOf = (row: string, col: string) => pairStats.get(`${row}|${col}`) ?? emptyStats();
+  const listBooks = (pair: TagPair) =>
+    getBooks(statsOf(pair.row, pair.col).ids).then(books => openDrillDown(`Tags: ${pairTitle(pair)}`, books));
+  const pairTitle = (pair: TagPair) => (pair.row === pair.col ? pair.row : `${pair.row} + ${pair.col}`);
+
+  function pairContent(pair: TagPair): TooltipContent {
+    return {
+      title: pairTitle(pair),
+      summary: summarizeStats(statsOf(pair.row, pair.col), statsOf(pair.row, pair.row).value),
+      shareLabel: `of "${pair.row}"`,
+      hint: pair.row === pair.col
+        ? 'Click to filter by this tag, shift+click to list the books'
+        : 'Click to filter by both tags, shift+click to list the books',
+    };
+  }
+
+  // the diagonal toggles its tag, other cells select exactly their two tags
+  function selectPair(pair: TagPair) {
+    if (pair.row === pair.col) {
+      dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'tags', value: pair.row });
+      return;
+    }
+    const isSelected = filters.tags.length === 2 && filters.tags.includes(pair.row) && filters.tags.includes(pair.col);
+    dispatch({ type: FILTER_ACTIONS.SET_VALUES, key: 'tags', values: isSelected ? [] : [pair.row, pair.col] });
+  }
+
+  useEffect(() => {
+    if (size.width === 0 || size.height === 0) return;
+    drawChart();
+  }, [tags, pairs, size, filters.tags, chart]);
+
+  function drawChart() {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const t = svg.transition().duration(TRANSITION_MS);
+    const w = size.width;
+    const h = size.height;
+
+    const leftMargin = margin.left * w;
+    const topMargin = margin.top * h;
+    const side = Math.max(0, Math.min(w * (1 - margin.left - margin.right), h * (1 - margin.top - margin.bottom)));
+
+    const x = d3.scaleBand().domain(tags).range([leftMargin, leftMargin + side]).padding(0.05);
+    const y = d3.scaleBand().domain(tags).range([topMargin, topMargin + side]).padding(0.05);
+    const offDiagonal = pairs.filter(d => d.row !== d.col);
+    const color = d3.scaleSequential(chart.sequential).domain([0, d3.max(offDiagonal, d => d.count) || 1]);
+    // the diagonal is each tag's own count, shaded apart from the pairs
+    const diagonalColor = d3.scaleSequential(d3.interpolateRgb(chart.background, chart.outline)).domain([0, d3.max(pairs, d => d.count) || 1]);
+
+    const selected = new Set(filters.tags);
+    const isSelected = (tag: string) => selected.size === 0 || selected.has(tag);
+    const rowOf = new Map(tags.map((tag, i) => [tag, i]));
+
+    // cells, keyed by their two tags so reordering slides them into place
+    const cellLayer = ensureLayer(svg, 'cells');
+    cellLayer
+      .selectAll<SVGRectElement, TagPair>('rect')
+      .data(pairs.filter(d => x(d.col) !== undefined && y(d.row) !== undefined), d => `${d.row}|${d.col}`)
+      .join(
+        enter => enter.append('rect')
+          .attr('x', d => x(d.col)!)
+          .attr('y', d => y(d.row)!)
+          .attr('width', x.bandwidth())
+          .attr('height', y.bandwidth())
+          .attr('opacity', 0),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove()
+      )
+      .style('cursor', 'pointer')
+      .on('click', (event: MouseEvent, d) => {
+        if (event.shiftKey) listBooks(d);
+        else selectPair(d);
+      })
+      .call(rect => attachTooltip(rect, tooltipHandlers, pairContent, d => describeMark(pairTitle(d), d.count)))
+      .call(rect => setGridPosition(rect, d => rowOf.get(d.row)!, d => rowOf.get(d.col)!))
+      .transition(t)
+      .attr('x', d => x(d.col)!)
+      .attr('y', d => y(d.row)!)
+      .attr('width', x.bandwidth())
+      .attr('height', y.bandwidth())
+      .attr('fill', d => (d.row === d.col ? diagonalColor(d.count) : color(d.count)))
+      .attr('opacity', d => (isSelected(d.row) || isSelected(d.col) ? 1 : 0.3));
+    enableKeyboardNavigation(cellLayer);
+
+    const fontSize = `${Math.max(8, Math.min(13, y.bandwidth() * 0.8))}px`;
+    const labelWeight = (tag: string) => (selected.has(tag) ? 'bold' : 'normal');
+
+    // row labels, click to toggle the tag
+    ensureLayer(svg, 'row-labels')
+      .selectAll<SVGTextElement, string>('text')
+      .data(tags, d => d)
+      .join(enter => enter.append('text').attr('y', d => y(d)! + y.bandwidth() / 2))
+      .attr('x', leftMargin - 4)
+      .attr('text-anchor', 'end')
+      .attr('dominant-baseline', 'middle')
+      .style('font-size', fontSize)
+      .style('font-weight', labelWeight)
+      .style('cursor', 'pointer')
+      .text(d => d)
+      .on('click', (_, d) => dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'tags', value: d }))
+      .transition(t)
+      .attr('y', d => y(d)! + y.bandwidth() / 2);
+
+    // column labels
+    ensureLayer(svg, 'col-labels')
+      .selectAll<SVGTextElement, string>('text')
+      .data(tags, d => d)
+      .join(enter => enter.append('text')
+        .attr('transform', d => `translate(${x(d)! + x.bandwidth() / 2},${topMargin - 4}) rotate(-60)`))
+      .attr('text-anchor', 'start')
+      .attr('dominant-baseline', 'middle')
+      .style('font-size', fontSize)
+      .style('font-weight', labelWeight)
+      .style('cursor', 'pointer')
+      .text(d => d)
+      .on('click', (_, d) => dispatch({ type: FILTER_ACTIONS.TOGGLE_VALUE, key: 'tags', value: d }))
+      .transition(t)
+      .attr('transform', d => `translate(${x(d)! + x.bandwidth() / 2},${topMargin - 4}) rotate(-60)`);
+  }
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Stack direction='row' spacing={2} alignItems='center' useFlexGap flexWrap='wrap' sx={{ padding: 1 }}>
+        <ToggleButtonGroup
+          exclusive
+          size='small'
+          value={order}
+          onChange={(_, value: TagOrder | null) => value && viewDispatch({ type: VIEW_ACTIONS.SET_TAG_ORDER, order: value })}
+        >
+          <ToggleButton value='frequency'>By frequency</ToggleButton>
+          <ToggleButton value='cluster'>Clustered</ToggleButton>
+        </ToggleButtonGroup>
+        <TextField
+          type='number'
+          size='small'
+          label='Tags'
+          value={topN}
+          onChange={event => {
+            const value = +event.target.value;
+            if (value >= 2) viewDispatch({ type: VIEW_ACTIONS.SET_TAG_TOP_N, topN: value });
+          }}
+          slotProps={{ htmlInput: { min: 2, max: 60 } }}
+          sx={{ width: 90 }}
+        />
+      </Stack>
+      <div ref={matrixRef} style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          width='100%'
+          height='100%'
+          role='group'
+          aria-label={chartLabel('Tag co-occurrence matrix', 'cells')}
+        />
+        <ChartDataTable
+          caption='Books sharing each pair of tags'
+          columns={[
+            { label: 'Tag', value: d => d.row },
+            { label: 'With tag', value: d => d.col },
+            { label: 'Books', value: d => d.count },
+          ]}
+          rows={pairs}
+        />
+        <Box sx={{ position: 'absolute', top: 8, right: 8 }}>
+          <ExportMenu svgRef={svgRef} fileName='tag-co-occurrence' rows={pairs} json={{ tags, pairs }} />
+        </Box>
+      </div>
+      <ChartTooltip tooltip={tooltip} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Stack, TextField, MenuItem, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { useChartTheme } from '../stores/ThemeContext';
+import { PALETTES, ThemeMode, PaletteName } from '../utils/theme';
+
+export default function ThemeSwitcher() {
+  const { settings, setMode, setPalette } = useChartTheme();
+
+  return (
+    <Stack direction='row' spacing={2} alignItems='center'>
+      <ToggleButtonGroup
+        exclusive
+        size='small'
+        value={settings.mode}
+        onChange={(_, value: ThemeMode | null) => value && setMode(value)}
+        aria-label='Color mode'
+      >
+        <ToggleButton value='light'>Light</ToggleButton>
+        <ToggleButton value='dark'>Dark</ToggleButton>
+      </ToggleButtonGroup>
+      <TextField
+        select
+        size='small'
+        label='Chart colors'
+        value={settings.palette}
+        onChange={event => setPalette(event.target.value as PaletteName)}
+        sx={{ width: 220 }}
+      >
+        {(Object.keys(PALETTES) as PaletteName[]).map(name => (
+          <MenuItem key={name} value={name}>
+            {PALETTES[name].label}{PALETTES[name].colorBlindSafe ? ' (color-blind safe)' : ''}
+          </MenuItem>
+        ))}
+      </TextField>
+    </Stack>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import * as d3 from 'd3';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { Stack, Button, FormControlLabel, Switch } from '@mui/material';
+import { ComponentSize, Margin } from '../types';
+import { useBooks } from '../stores/BookDataContext';
+import { useFilters, useRollup } from '../stores/FilterContext';
+import { FILTER_ACTIONS, FilterKey, decadeOf } from '../stores/FilterReducer';
+import { ensureLayer, TRANSITION_MS } from '../utils/chart';
+import { GroupKey } from '../utils/rollup';
+import { useChartTheme } from '../stores/ThemeContext';
+
+interface YearBin {
+  year: number;
+  count: number;
+}
+
+// the brush shows the selected range, so the histogram itself ignores it
+const IGNORED_FILTERS: readonly FilterKey[] = ['yearRange'];
+const YEAR: GroupKey[] = ['year'];
+const ROLLUP_OPTIONS = { ignore: IGNORED_FILTERS, ids: false };
+
+export default function YearTimeline() {
+  const { summary } = useBooks();
+  const rows = useRollup(YEAR, ROLLUP_OPTIONS);
+  const { filters, dispatch } = useFilters();
+  const { chart } = useChartTheme();
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+  const [snapToDecade, setSnapToDecade] = useState(false);
+
+  const margin: Margin = { top: 0.08, right: 0.03, bottom: 0.25, left: 0.06 };
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: timelineRef as React.RefObject<HTMLDivElement>, onResize });
+
+  // the year domain comes from the whole dataset so the axis stays put while filtering
+  const yearExtent = summary.yearExtent;
+
+  const bins = useMemo(() => rows.map((row): YearBin => ({ year: +row.keys[0], count: row.value })), [rows]);
+
+  useEffect(() => {
+    if (!yearExtent || size.width === 0 || size.height === 0) return;
+    drawChart(yearExtent);
+  }, [bins, size, yearExtent, filters.yearRange, snapToDecade, chart]);
+
+  function snapRange([from, to]: [number, number]): [number, number] {
+    return snapToDecade ? [decadeOf(from), decadeOf(to) + 9] : [from, to];
+  }
+
+  function drawChart([minYear, maxYear]: [number, number]) {
+    const svg = d3.select<SVGSVGElement, unknown>(svgRef.current!);
+    const t = svg.transition().duration(TRANSITION_MS);
+    const w = size.width;
+    const h = size.height;
+
+    const leftMargin = margin.left * w;
+    const rightMargin = margin.right * w;
+    const topMargin = margin.top * h;
+    const bottomMargin = margin.bottom * h;
+
+    // each year is a band from `year` to `year + 1`
+    const x = d3.scaleLinear()
+      .domain([minYear, maxYear + 1])
+      .range([leftMargin, w - rightMargin]);
+
+    const y = d3.scaleLinear()
+      .domain([0, d3.max(bins, d => d.count) || 1])
+      .nice()
+      .range([h - bottomMargin, topMargin]);
+
+    const range = filters.yearRange;
+    const inRange = (year: number) => !range || (year >= range[0] && year <= range[1]);
+
+    // bars
+    ensureLayer(svg, 'bars')
+      .selectAll<SVGRectElement, YearBin>('rect')
+      .data(bins, d => d.year)
+      .join(
+        enter => enter.append('rect')
+          .attr('x', d => x(d.year))
+          .attr('y', y(0))
+          .attr('height', 0),
+        update => update,
+        exit => exit.transition(t)
+          .attr('y', y(0))
+          .attr('height', 0)
+          .remove()
+      )
+      .call(rect => rect.selectAll('title')
+        .data(d => [d])
+        .join('title')
+        .text(d => `${d.year}: ${d.count}`))
+      .transition(t)
+      .attr('x', d => x(d.year))
+      .attr('y', d => y(d.count))
+      .attr('width', d => Math.max(1, x(d.year + 1) - x(d.year) - 0.5))
+      .attr('height', d => y(0) - y(d.count))
+      .attr('fill', d => (inRange(d.year) ? chart.accent : chart.muted));
+
+    // x
+    ensureLayer(svg, 'x-axis')
+      .attr('transform', `translate(0,${h - bottomMargin})`)
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(w / 80))).tickFormat(d3.format('d')));
+
+    // y
+    ensureLayer(svg, 'y-axis')
+      .attr('transform', `translate(${leftMargin},0)`)
+      .transition(t)
+      .call(d3.axisLeft(y).ticks(3));
+
+    // x label
+    ensureLayer<SVGTextElement>(svg, 'x-label', 'text')
+      .attr('x', leftMargin + (w - leftMargin - rightMargin) / 2)
+      .attr('y', h - bottomMargin * 0.15)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '12px')
+      .text('Publication Year (drag to select a range)');
+
+    // brush
+    const brush = d3.brushX()
+      .extent([[leftMargin, topMargin], [w - rightMargin, h - bottomMargin]])
+      .on('end', (event: d3.D3BrushEvent<unknown>) => {
+        // programmatic moves below have no source event and must not dispatch again
+        if (!event.sourceEvent) return;
+        if (!event.selection) {
+          dispatch({ type: FILTER_ACTIONS.SET_YEAR_RANGE, range: null });
+          return;
+        }
+        const [x0, x1] = event.selection as [number, number];
+        const from = Math.max(minYear, Math.round(x.invert(x0)));
+        const to = Math.min(maxYear, Math.max(from, Math.round(x.invert(x1)) - 1));
+        dispatch({ type: FILTER_ACTIONS.SET_YEAR_RANGE, range: snapRange([from, to]) });
+      });
+
+    ensureLayer(svg, 'brush')
+      .call(brush)
+      .call(brush.move, range ? [x(Math.max(range[0], minYear)), x(Math.min(range[1], maxYear) + 1)] : null);
+  }
+
+  function toggleSnap(checked: boolean) {
+    setSnapToDecade(checked);
+    if (checked && filters.yearRange) {
+      const [from, to] = filters.yearRange;
+      dispatch({ type: FILTER_ACTIONS.SET_YEAR_RANGE, range: [decadeOf(from), decadeOf(to) + 9] });
+    }
+  }
+
+  return (
+    <Stack sx={{ width: '100%', height: '100%' }}>
+      <Stack direction='row' spacing={2} alignItems='center' justifyContent='flex-end'>
+        <FormControlLabel
+          control={<Switch size='small' checked={snapToDecade} onChange={(_, checked) => toggleSnap(checked)} />}
+          label='Snap to decade'
+        />
+        <Button
+          size='small'
+          variant='contained'
+          disabled={!filters.yearRange}
+          onClick={() => dispatch({ type: FILTER_ACTIONS.SET_YEAR_RANGE, range: null })}
+        >
+          Reset
+        </Button>
+      </Stack>
+      <div ref={timelineRef} style={{ width: '100%', flex: 1, minHeight: 0 }}>
+        <svg ref={svgRef} width='100%' height='100%' />
+      </div>
+    </Stack>
+  );
+}
@@ -0,0 +1,49 @@
+import * as d3 from 'd3';
+import { Book } from '../types';
+import { normalizeTags } from '../utils/tags';
+
+export const BOOKS_CSV_URL = '../../data/top_1000_most_swapped_books.csv';
+
+const text = (value: string | undefined) => (value ?? '').trim();
+
+const toNumber = (value: string | undefined) => {
+  const trimmed = text(value);
+  return trimmed === '' ? NaN : +trimmed;
+};
+
+const toBoolean = (value: string | undefined) => text(value).toLowerCase() === 'true';
+
+const toList = (value: string | undefined) =>
+  text(value)
+    .split(',')
+    .map(d => d.trim())
+    .filter(d => d.length > 0);
+
+// Parse one csv row. The file starts with a byte order mark, so the first
+// header may come through as '\ufeffid' depending on how it was decoded.
+export function parseBook(row: d3.DSVRowString): Book {
+  const movieYear = toNumber(row.movie_release_year);
+
+  return {
+    id: toNumber(row.id ?? row['\ufeffid']),
+    title: text(row.title),
+    author: text(row.author) || 'Unknown',
+    genre: text(row.genre) || 'Unknown',
+    language: text(row.language) || 'Unknown',
+    publicationYear: toNumber(row.publicationYear),
+    publisher: text(row.publisher) || 'Unknown',
+    description: text(row.description),
+    pageCount: toNumber(row.pageCount),
+    tags: normalizeTags(toList(row.tags)),
+    rating_average: toNumber(row.rating_average),
+    most_popular_country: text(row.most_popular_country) || 'Unknown',
+    bestseller_status: toBoolean(row.bestseller_status),
+    awards: toList(row.awards),
+    age_category: text(row.age_category) || 'Unknown',
+    adapted_to_movie: toBoolean(row.adapted_to_movie),
+    movie_release_year: Number.isNaN(movieYear) ? null : movieYear,
+    isbn: text(row.isbn),
+    weight: 1,
+    attributes: {},
+  };
+}
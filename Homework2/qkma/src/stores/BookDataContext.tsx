@@ -0,0 +1,150 @@
+import React from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { Book } from '../types';
+import { BOOKS_CSV_URL } from './BookData';
+import { DIMENSION_KEYS, DimensionKey } from '../utils/dimensions';
+import { DatasetSummary, RollupQuery, RollupRow, EMPTY_SUMMARY } from '../utils/rollup';
+import { defaultSankeyConfig } from './ViewReducer';
+import { createBookWorker, isAbortError, BookWorker } from '../workers/client';
+import { LoadProgress } from '../workers/protocol';
+
+// A set of books the dashboard can show, either the built-in csv or an upload.
+interface Dataset {
+  name: string;
+  books: Book[];
+  // dimensions that carry data in this dataset, offered as Sankey layers
+  dimensions: DimensionKey[];
+  // layers the Sankey starts with and resets to
+  sankeyLayers: DimensionKey[];
+}
+
+interface BuiltInState {
+  summary: DatasetSummary;
+  loading: boolean;
+  error: Error | null;
+  // how much of the csv has been parsed, null before the first chunk arrives
+  progress: LoadProgress | null;
+}
+
+type BookLookup = (ids: number[], signal?: AbortSignal) => Promise<Book[]>;
+
+type DatasetInfo = Omit<Dataset, 'books'> & { builtIn: boolean };
+
+interface BookDataState extends BuiltInState {
+  dataset: DatasetInfo;
+  replaceDataset: (dataset: Dataset) => void;
+  resetDataset: () => void;
+  // aggregates the current dataset in the worker, see `useRollup`
+  rollup: (query: RollupQuery, signal?: AbortSignal) => Promise<RollupRow[]>;
+  // the books with these ids, fetched from the worker for a drill-down or tooltip
+  getBooks: BookLookup;
+}
+
+const BUILT_IN_NAME = 'Top 1000 most swapped books';
+
+const BookDataContext = createContext<BookDataState | undefined>(undefined);
+
+// Loads the dataset once and shares what the charts need about it below the provider.
+// Parsing and aggregation run in a worker that lives as long as the provider; the
+// books stay there, and a new `summary` tells the charts to ask again.
+export function BookDataProvider({ url = BOOKS_CSV_URL, children }: { url?: string, children: ReactNode }) {
+  const [builtIn, setBuiltIn] = useState<BuiltInState>(
+    { summary: EMPTY_SUMMARY, loading: true, error: null, progress: null }
+  );
+  const [uploaded, setUploaded] = useState<{ info: DatasetInfo, summary: DatasetSummary } | null>(null);
+  const workerRef = useRef<BookWorker | null>(null);
+  const uploadedRef = useRef<Dataset | null>(null);
+
+  useEffect(() => {
+    const worker = createBookWorker();
+    const controller = new AbortController();
+    workerRef.current = worker;
+    if (uploadedRef.current) worker.setBooks(uploadedRef.current.books).catch(() => undefined);
+    setBuiltIn(prev => ({ ...prev, loading: true, error: null, progress: null }));
+
+    worker.load(url, progress => setBuiltIn(prev => ({ ...prev, progress })), controller.signal)
+      .then(summary => setBuiltIn(prev => ({ summary, loading: false, error: null, progress: prev.progress })))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading CSV:', error);
+        setBuiltIn({ summary: EMPTY_SUMMARY, loading: false, error, progress: null });
+      });
+
+    return () => {
+      controller.abort();
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [url]);
+
+  // the worker is told right away, before the charts below ask for new rollups;
+  // the upload shows once the worker has summed it up
+  const replaceDataset = useCallback((dataset: Dataset) => {
+    uploadedRef.current = dataset;
+    const { name, dimensions, sankeyLayers } = dataset;
+    workerRef.current?.setBooks(dataset.books)
+      .then(summary => {
+        if (uploadedRef.current !== dataset) return;
+        setUploaded({ info: { name, dimensions, sankeyLayers, builtIn: false }, summary });
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Error summarizing the upload:', error);
+      });
+  }, []);
+  const resetDataset = useCallback(() => {
+    uploadedRef.current = null;
+    workerRef.current?.setBooks(null).catch(() => undefined);
+    setUploaded(null);
+  }, []);
+
+  // before the worker has started there is nothing to aggregate yet
+  const rollup = useCallback((query: RollupQuery, signal?: AbortSignal) =>
+    workerRef.current ? workerRef.current.rollup(query, signal) : Promise.resolve([]), []);
+  const getBooks = useCallback((ids: number[], signal?: AbortSignal) =>
+    workerRef.current ? workerRef.current.books(ids, signal) : Promise.resolve([]), []);
+
+  const value = useMemo((): BookDataState => (uploaded
+    ? {
+      summary: uploaded.summary,
+      loading: false,
+      error: null,
+      progress: null,
+      dataset: uploaded.info,
+      replaceDataset,
+      resetDataset,
+      rollup,
+      getBooks,
+    }
+    : {
+      ...builtIn,
+      dataset: { name: BUILT_IN_NAME, dimensions: DIMENSION_KEYS, sankeyLayers: defaultSankeyConfig.layers, builtIn: true },
+      replaceDataset,
+      resetDataset,
+      rollup,
+      getBooks,
+    }), [builtIn, uploaded, replaceDataset, resetDataset, rollup, getBooks]);
+
+  return (
+    <BookDataContext.Provider value={value}>
+      {children}
+    </BookDataContext.Provider>
+  );
+}
+
+export function useBooks() {
+  const context = useContext(BookDataContext);
+  if (!context) throw new Error('useBooks must be used within a BookDataProvider');
+  return context;
+}
+
+// Finds books by id: in `local`, the books a chart was given as props, or else in the worker.
+export function useBookLookup(local?: Book[]) {
+  const { getBooks } = useBooks();
+  return useMemo((): BookLookup => {
+    if (!local) return getBooks;
+    const byId = new Map(local.map(book => [book.id, book]));
+    return (ids: number[]) => Promise.resolve(ids.filter(id => byId.has(id)).map(id => byId.get(id)!));
+  }, [local, getBooks]);
+}
+
+export type { Dataset, BookLookup };
@@ -0,0 +1,40 @@
+import React from 'react'
+import { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
+import { Book } from '../types';
+
+interface DrillDown {
+  // describes the clicked mark, e.g. "Fantasy · Adult"
+  title: string;
+  books: Book[];
+}
+
+interface DrillDownContextValue {
+  drillDown: DrillDown | null;
+  openDrillDown: (title: string, books: Book[]) => void;
+  closeDrillDown: () => void;
+}
+
+const DrillDownContext = createContext<DrillDownContextValue | undefined>(undefined);
+
+// Create provider component
+export function DrillDownProvider({ children }: { children: ReactNode }) {
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const openDrillDown = useCallback((title: string, books: Book[]) => setDrillDown({ title, books }), []);
+  const closeDrillDown = useCallback(() => setDrillDown(null), []);
+  const value = useMemo(() => ({ drillDown, openDrillDown, closeDrillDown }), [drillDown, openDrillDown, closeDrillDown]);
+
+  return (
+    <DrillDownContext.Provider value={value}>
+      {children}
+    </DrillDownContext.Provider>
+  );
+}
+
+export function useDrillDown() {
+  const context = useContext(DrillDownContext);
+  if (!context) throw new Error('useDrillDown must be used within a DrillDownProvider');
+  return context;
+}
+
+export type { DrillDown };
@@ -0,0 +1,135 @@
+import React from 'react';
+import { createContext, useCallback, useContext, useEffect, useId, useMemo, useState, ReactNode } from 'react';
+import { OTHER } from '../utils/dimensions';
+
+// What one small multiple shows: the values along its band axes and the largest
+// value its linear or color scale has to reach.
+interface FacetDomain {
+  x: string[];
+  y: string[];
+  max: number;
+}
+
+// A panel's total per value, e.g. books per genre, to rank the values by.
+type FacetTotals = ReadonlyMap<string, number>;
+
+type Report<T> = (panel: string, value: T | null) => void;
+
+interface FacetState {
+  // true when the panels draw with the union of their domains
+  shared: boolean;
+  domain: FacetDomain;
+  report: Report<FacetDomain>;
+  // the totals summed over all panels
+  totals: FacetTotals;
+  reportTotals: Report<FacetTotals>;
+  // key of the mark under the pointer in any panel, e.g. a genre
+  hovered: string | null;
+  setHovered: (key: string | null) => void;
+}
+
+const EMPTY_DOMAIN: FacetDomain = { x: [], y: [], max: 0 };
+const EMPTY_TOTALS: FacetTotals = new Map();
+
+const sameValues = (a: string[], b: string[]) => a.length === b.length && a.every((d, i) => d === b[i]);
+const sameDomain = (a: FacetDomain, b: FacetDomain) => sameValues(a.x, b.x) && sameValues(a.y, b.y) && a.max === b.max;
+const sameTotals = (a: FacetTotals, b: FacetTotals) =>
+  a.size === b.size && Array.from(a).every(([key, total]) => b.get(key) === total);
+
+// values of every panel in the order they first appear, "Other" last
+const union = (lists: string[][]) => {
+  const values = Array.from(new Set(lists.flat()));
+  return [...values.filter(d => d !== OTHER), ...values.filter(d => d === OTHER)];
+};
+
+// What each panel last reported, null when it is gone. Panels report whenever
+// their object changes, only new values update the state.
+function usePanelReports<T>(same: (a: T, b: T) => boolean): [Map<string, T>, Report<T>] {
+  const [reports, setReports] = useState<Map<string, T>>(new Map());
+  const report = useCallback((panel: string, value: T | null) => {
+    setReports(prev => {
+      const current = prev.get(panel);
+      if (current === undefined ? value === null : value !== null && same(current, value)) return prev;
+      const next = new Map(prev);
+      if (value === null) next.delete(panel);
+      else next.set(panel, value);
+      return next;
+    });
+  }, [same]);
+  return [reports, report];
+}
+
+const FacetContext = createContext<FacetState | undefined>(undefined);
+
+// Links the small multiples of one chart: shared scales and hover.
+export function FacetProvider({ shared, children }: { shared: boolean, children: ReactNode }) {
+  const [domains, report] = usePanelReports(sameDomain);
+  const [panelTotals, reportTotals] = usePanelReports(sameTotals);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const domain = useMemo((): FacetDomain => {
+    const all = Array.from(domains.values());
+    if (all.length === 0) return EMPTY_DOMAIN;
+    return {
+      x: union(all.map(d => d.x)),
+      y: union(all.map(d => d.y)),
+      max: Math.max(...all.map(d => d.max)),
+    };
+  }, [domains]);
+
+  const totals = useMemo((): FacetTotals => {
+    if (panelTotals.size === 0) return EMPTY_TOTALS;
+    const sums = new Map<string, number>();
+    panelTotals.forEach(panel => panel.forEach((total, key) => sums.set(key, (sums.get(key) ?? 0) + total)));
+    return sums;
+  }, [panelTotals]);
+
+  const value = useMemo(
+    () => ({ shared, domain, report, totals, reportTotals, hovered, setHovered }),
+    [shared, domain, report, totals, reportTotals, hovered]
+  );
+
+  return (
+    <FacetContext.Provider value={value}>
+      {children}
+    </FacetContext.Provider>
+  );
+}
+
+// The small multiple a chart is drawn in, undefined when it stands alone.
+export function useFacet() {
+  return useContext(FacetContext);
+}
+
+// Reports `value` for this panel while it is mounted.
+function useReport<T>(report: Report<T> | undefined, value: T) {
+  const panel = useId();
+  useEffect(() => {
+    report?.(panel, value);
+  }, [report, panel, value]);
+  useEffect(() => () => report?.(panel, null), [report, panel]);
+}
+
+// The domain a chart should draw with: its own, or the union over all panels
+// when the small multiples share their scales. `local` has to be memoized, it
+// is reported again whenever it is a new object.
+export function useFacetDomain(local: FacetDomain) {
+  const facet = useFacet();
+  useReport(facet?.report, local);
+
+  // until the panels have reported, each one draws with its own
+  return facet?.shared && facet.domain !== EMPTY_DOMAIN ? facet.domain : local;
+}
+
+// The totals a chart should rank its values by, e.g. to pick the ones it does
+// not fold into "Other": its own, or the sums over all panels when the small
+// multiples share their scales, so every panel picks the same. Memoize `local`
+// as for `useFacetDomain`.
+export function useFacetTotals(local: FacetTotals) {
+  const facet = useFacet();
+  useReport(facet?.reportTotals, local);
+
+  return facet?.shared && facet.totals !== EMPTY_TOTALS ? facet.totals : local;
+}
+
+export type { FacetDomain, FacetTotals };
@@ -0,0 +1,78 @@
+import React from 'react'
+import { createContext, useContext, useEffect, useMemo, useReducer, useState, ReactNode } from 'react';
+import { filterReducer, initialFilterState, FilterState, FilterAction, FilterKey } from './FilterReducer';
+import { useBooks } from './BookDataContext';
+import { Book } from '../types';
+import { rollupBooks, GroupKey, RollupRow, ValueRestriction } from '../utils/rollup';
+import { isAbortError } from '../workers/client';
+
+const NO_IGNORE: readonly FilterKey[] = [];
+const NO_ROWS: RollupRow[] = [];
+
+const FilterContext = createContext<{ filters: FilterState, dispatch: React.Dispatch<FilterAction> } | undefined>(undefined);
+
+// Create provider component
+export function FilterProvider({ children }: { children: ReactNode }) {
+  const [filters, dispatch] = useReducer(filterReducer, initialFilterState);
+
+  return (
+    <FilterContext.Provider value={{ filters, dispatch }}>
+      {children}
+    </FilterContext.Provider>
+  );
+}
+
+export function useFilters() {
+  const context = useContext(FilterContext);
+  if (!context) throw new Error('useFilters must be used within a FilterProvider');
+  return context;
+}
+
+interface RollupOptions {
+  // filters the chart leaves out; a module level constant or memoized array, as
+  // a new one on every render would ask the worker again each time
+  ignore?: readonly FilterKey[];
+  // e.g. one small multiple's books, memoized like `ignore`
+  restrict?: readonly ValueRestriction[];
+  // false leaves the book ids out, for charts that never list or summarize the books
+  ids?: boolean;
+  // the whole dataset, whatever the filters, e.g. for an axis that stays put
+  unfiltered?: boolean;
+  // books summed on the main thread instead, as they are, e.g. passed in as props
+  books?: Book[];
+  // how much a local book adds to its row, its weight by default
+  value?: (book: Book) => number;
+}
+
+const NO_OPTIONS: RollupOptions = {};
+
+// Totals and book ids of the filtered books per `groupBy` value, summed in the
+// worker. A newer query cancels the one still running; until it answers, the last
+// result for the same grouping stays so the chart does not flash empty. Local
+// books are summed on the main thread instead.
+export function useRollup(groupBy: readonly GroupKey[], options: RollupOptions = NO_OPTIONS) {
+  const { ignore = NO_IGNORE, restrict, ids = true, unfiltered = false, books: localBooks, value: localValue } = options;
+  const { summary, rollup } = useBooks();
+  const { filters: currentFilters } = useFilters();
+  const filters = unfiltered ? initialFilterState : currentFilters;
+  const groupKey = groupBy.join('|');
+  const [result, setResult] = useState<{ groupKey: string, rows: RollupRow[] }>({ groupKey, rows: [] });
+
+  const localRows = useMemo(
+    () => (localBooks ? rollupBooks(localBooks, { groupBy, restrict, ids }, localValue) : null),
+    [localBooks, localValue, restrict, ids, groupKey]
+  );
+
+  useEffect(() => {
+    if (localBooks) return;
+    const controller = new AbortController();
+    rollup({ filters, ignore, groupBy, restrict, ids }, controller.signal)
+      .then(rows => setResult({ groupKey, rows }))
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Error aggregating books:', error);
+      });
+    return () => controller.abort();
+  }, [summary, filters, ignore, restrict, ids, groupKey, rollup, localBooks]);
+
+  return localRows ?? (result.groupKey === groupKey ? result.rows : NO_ROWS);
+}
@@ -0,0 +1,144 @@
+import { Book } from '../types';
+import { hasTags } from '../utils/tags';
+
+// Define action types
+export const FILTER_ACTIONS = {
+    TOGGLE_VALUE: 'toggleValue',
+    SET_VALUES: 'setValues',
+    SET_FLAG: 'setFlag',
+    SET_YEAR_RANGE: 'setYearRange',
+    SET_FILTERS: 'setFilters',
+    CLEAR: 'clear',
+    RESET: 'reset',
+} as const;
+
+// Categorical filters hold the selected values of a Book column,
+// flag filters hold a yes/no choice, null meaning "either".
+// List filters match columns with several values per book, which must carry all selected values.
+type CategoryFilterKey = 'genre' | 'age_category' | 'language' | 'most_popular_country' | 'publisher';
+type ListFilterKey = 'tags';
+type FlagFilterKey = 'bestseller_status' | 'adapted_to_movie';
+type ValueFilterKey = CategoryFilterKey | ListFilterKey;
+type FilterKey = ValueFilterKey | FlagFilterKey | 'yearRange';
+
+interface FilterState {
+    genre: string[];
+    age_category: string[];
+    language: string[];
+    most_popular_country: string[];
+    publisher: string[];
+    tags: string[];
+    bestseller_status: boolean | null;
+    adapted_to_movie: boolean | null;
+    // inclusive publication years, e.g. [1990, 1999]
+    yearRange: [number, number] | null;
+}
+
+type FilterAction =
+    | { type: typeof FILTER_ACTIONS.TOGGLE_VALUE, key: ValueFilterKey, value: string }
+    | { type: typeof FILTER_ACTIONS.SET_VALUES, key: ValueFilterKey, values: string[] }
+    | { type: typeof FILTER_ACTIONS.SET_FLAG, key: FlagFilterKey, value: boolean | null }
+    | { type: typeof FILTER_ACTIONS.SET_YEAR_RANGE, range: [number, number] | null }
+    | { type: typeof FILTER_ACTIONS.SET_FILTERS, filters: Partial<FilterState> }
+    | { type: typeof FILTER_ACTIONS.CLEAR, key: FilterKey }
+    | { type: typeof FILTER_ACTIONS.RESET };
+
+export const CATEGORY_FILTER_KEYS: CategoryFilterKey[] = ['genre', 'age_category', 'language', 'most_popular_country', 'publisher'];
+export const LIST_FILTER_KEYS: ListFilterKey[] = ['tags'];
+export const FLAG_FILTER_KEYS: FlagFilterKey[] = ['bestseller_status', 'adapted_to_movie'];
+
+export const FILTER_LABELS: Record<FilterKey, string> = {
+    genre: 'Genre',
+    age_category: 'Age Category',
+    language: 'Language',
+    most_popular_country: 'Country',
+    publisher: 'Publisher',
+    tags: 'Tags',
+    bestseller_status: 'Bestseller',
+    adapted_to_movie: 'Adapted To Movie',
+    yearRange: 'Years',
+};
+
+// Define initial state
+export const initialFilterState: FilterState = {
+    genre: [],
+    age_category: [],
+    language: [],
+    most_popular_country: [],
+    publisher: [],
+    tags: [],
+    bestseller_status: null,
+    adapted_to_movie: null,
+    yearRange: null,
+};
+
+const emptyValue = (key: FilterKey) => initialFilterState[key];
+
+// reducer function
+export const filterReducer = (state: FilterState, action: FilterAction): FilterState => {
+    switch (action.type) {
+        case FILTER_ACTIONS.TOGGLE_VALUE: {
+            const values = state[action.key];
+            return {
+                ...state,
+                [action.key]: values.includes(action.value)
+                    ? values.filter(v => v !== action.value)
+                    : [...values, action.value],
+            };
+        }
+        case FILTER_ACTIONS.SET_VALUES:
+            return { ...state, [action.key]: [...action.values] };
+        case FILTER_ACTIONS.SET_FLAG:
+            return { ...state, [action.key]: action.value };
+        case FILTER_ACTIONS.SET_YEAR_RANGE:
+            return { ...state, yearRange: action.range };
+        case FILTER_ACTIONS.SET_FILTERS:
+            return { ...state, ...action.filters };
+        case FILTER_ACTIONS.CLEAR:
+            return { ...state, [action.key]: emptyValue(action.key) };
+        case FILTER_ACTIONS.RESET:
+            return initialFilterState;
+        default:
+            return state;
+    }
+}
+
+export const decadeOf = (year: number) => Math.floor(year / 10) * 10;
+
+export function isFilterActive(filters: FilterState, key: FilterKey) {
+    const value = filters[key];
+    return Array.isArray(value) ? value.length > 0 : value !== null;
+}
+
+export function hasActiveFilters(filters: FilterState) {
+    return (Object.keys(filters) as FilterKey[]).some(key => isFilterActive(filters, key));
+}
+
+// `ignore` lets a chart skip the filters it sets itself, so it keeps
+// showing the full range of its own dimension and highlights the selection.
+export function matchesFilters(book: Book, filters: FilterState, ignore: readonly FilterKey[] = []) {
+    for (const key of CATEGORY_FILTER_KEYS) {
+        if (ignore.includes(key) || filters[key].length === 0) continue;
+        if (!filters[key].includes(book[key])) return false;
+    }
+    for (const key of LIST_FILTER_KEYS) {
+        if (ignore.includes(key) || filters[key].length === 0) continue;
+        if (!hasTags(book, filters[key])) return false;
+    }
+    for (const key of FLAG_FILTER_KEYS) {
+        if (ignore.includes(key) || filters[key] === null) continue;
+        if (book[key] !== filters[key]) return false;
+    }
+    if (!ignore.includes('yearRange') && filters.yearRange) {
+        const [from, to] = filters.yearRange;
+        const year = book.publicationYear;
+        if (Number.isNaN(year) || year < from || year > to) return false;
+    }
+    return true;
+}
+
+export function filterBooks(books: Book[], filters: FilterState, ignore: readonly FilterKey[] = []) {
+    return books.filter(book => matchesFilters(book, filters, ignore));
+}
+
+export type { FilterState, FilterAction, FilterKey, CategoryFilterKey, ListFilterKey, ValueFilterKey, FlagFilterKey };
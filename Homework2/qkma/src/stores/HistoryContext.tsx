@@ -0,0 +1,99 @@
+import React from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef, ReactNode } from 'react';
+import { historyReducer, initialHistoryState, describeChange, HISTORY_ACTIONS, State, HistoryEntry } from './Reducer';
+import { useBooks } from './BookDataContext';
+import { useFilters } from './FilterContext';
+import { useView } from './ViewContext';
+import { useDrillDown } from './DrillDownContext';
+import { FILTER_ACTIONS } from './FilterReducer';
+import { VIEW_ACTIONS } from './ViewReducer';
+
+interface HistoryContextValue {
+  history: State;
+  undo: () => void;
+  redo: () => void;
+  // goes back to `past[index]`
+  jumpTo: (index: number) => void;
+}
+
+const HistoryContext = createContext<HistoryContextValue | undefined>(undefined);
+
+// Records every filter, chart setting and drill-down change as a step that can be
+// undone with Ctrl+Z and redone with Ctrl+Shift+Z. Must sit inside the providers it watches.
+export function HistoryProvider({ children }: { children: ReactNode }) {
+  const { summary, dataset } = useBooks();
+  const { filters, dispatch: filterDispatch } = useFilters();
+  const { view, dispatch: viewDispatch } = useView();
+  const { drillDown, openDrillDown, closeDrillDown } = useDrillDown();
+  const [history, dispatch] = useReducer(historyReducer, { filters, view, drillDown }, initialHistoryState);
+  const shownSummary = useRef(summary);
+
+  // Restoring a step changes the watched state to exactly the step's snapshot,
+  // so the effect below finds nothing to record.
+  const restore = useCallback((entry: HistoryEntry) => {
+    const { snapshot } = entry;
+    filterDispatch({ type: FILTER_ACTIONS.SET_FILTERS, filters: snapshot.filters });
+    viewDispatch({ type: VIEW_ACTIONS.SET_VIEW, view: snapshot.view });
+    if (snapshot.drillDown) openDrillDown(snapshot.drillDown.title, snapshot.drillDown.books);
+    else closeDrillDown();
+  }, [filterDispatch, viewDispatch, openDrillDown, closeDrillDown]);
+
+  // a step just recorded becomes the present, the effect then runs again and finds no change
+  const present = history.present.snapshot;
+  useEffect(() => {
+    const snapshot = { filters, view, drillDown };
+    // steps of another dataset would filter on values it does not have
+    if (summary !== shownSummary.current) {
+      shownSummary.current = summary;
+      dispatch({ type: HISTORY_ACTIONS.CLEAR, snapshot, label: dataset.name });
+      return;
+    }
+    const change = describeChange(present, snapshot);
+    if (change) dispatch({ type: HISTORY_ACTIONS.RECORD, entry: { ...change, time: Date.now(), snapshot } });
+  }, [summary, dataset.name, filters, view, drillDown, present]);
+
+  const undo = useCallback(() => {
+    if (history.past.length === 0) return;
+    restore(history.past[history.past.length - 1]);
+    dispatch({ type: HISTORY_ACTIONS.UNDO });
+  }, [history, restore]);
+
+  const redo = useCallback(() => {
+    if (history.future.length === 0) return;
+    restore(history.future[0]);
+    dispatch({ type: HISTORY_ACTIONS.REDO });
+  }, [history, restore]);
+
+  const jumpTo = useCallback((index: number) => {
+    if (index < 0 || index >= history.past.length) return;
+    restore(history.past[index]);
+    dispatch({ type: HISTORY_ACTIONS.JUMP, index });
+  }, [history, restore]);
+
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      // text fields keep their own undo
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, [contenteditable="true"]')) return;
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  const value = useMemo(() => ({ history, undo, redo, jumpTo }), [history, undo, redo, jumpTo]);
+
+  return (
+    <HistoryContext.Provider value={value}>
+      {children}
+    </HistoryContext.Provider>
+  );
+}
+
+export function useHistory() {
+  const context = useContext(HistoryContext);
+  if (!context) throw new Error('useHistory must be used within a HistoryProvider');
+  return context;
+}
@@ -0,0 +1,43 @@
+import React from 'react'
+import { createContext, useContext, useEffect, useReducer, ReactNode } from 'react';
+import { layoutReducer, sanitizeLayout, defaultLayout, LayoutState, LayoutAction } from './LayoutReducer';
+
+const STORAGE_KEY = 'dashboard-layout';
+
+// the saved layout, or the default one when nothing (readable) was saved
+function loadLayout(): LayoutState {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? sanitizeLayout(JSON.parse(saved)) : defaultLayout;
+  } catch {
+    return defaultLayout;
+  }
+}
+
+const LayoutContext = createContext<{ layout: LayoutState, dispatch: React.Dispatch<LayoutAction> } | undefined>(undefined);
+
+// Create provider component
+export function LayoutProvider({ children }: { children: ReactNode }) {
+  const [layout, dispatch] = useReducer(layoutReducer, undefined, loadLayout);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+    } catch (error) {
+      // private browsing or a full quota, the layout still works for this session
+      console.warn('Could not save the dashboard layout:', error);
+    }
+  }, [layout]);
+
+  return (
+    <LayoutContext.Provider value={{ layout, dispatch }}>
+      {children}
+    </LayoutContext.Provider>
+  );
+}
+
+export function useLayout() {
+  const context = useContext(LayoutContext);
+  if (!context) throw new Error('useLayout must be used within a LayoutProvider');
+  return context;
+}
@@ -0,0 +1,112 @@
+// Define action types
+export const LAYOUT_ACTIONS = {
+    MOVE_PANEL: 'movePanel',
+    RESIZE_PANEL: 'resizePanel',
+    HIDE_PANEL: 'hidePanel',
+    SHOW_PANEL: 'showPanel',
+    SET_LAYOUT: 'setLayout',
+    RESET_LAYOUT: 'resetLayout',
+} as const;
+
+type PanelId = 'timeline' | 'bars' | 'heatmap' | 'sankey' | 'ratings' | 'network' | 'map' | 'tagMatrix' | 'tagCloud';
+
+// A chart's place on the dashboard grid, in grid columns and rows.
+interface PanelLayout {
+    id: PanelId;
+    width: number;
+    height: number;
+    hidden: boolean;
+}
+
+// panels in reading order, the grid fills them in left to right
+type LayoutState = PanelLayout[];
+
+type LayoutAction =
+    // `before: null` moves the panel to the end
+    | { type: typeof LAYOUT_ACTIONS.MOVE_PANEL, id: PanelId, before: PanelId | null }
+    | { type: typeof LAYOUT_ACTIONS.RESIZE_PANEL, id: PanelId, width: number, height: number }
+    | { type: typeof LAYOUT_ACTIONS.HIDE_PANEL, id: PanelId }
+    | { type: typeof LAYOUT_ACTIONS.SHOW_PANEL, id: PanelId }
+    | { type: typeof LAYOUT_ACTIONS.SET_LAYOUT, layout: LayoutState }
+    | { type: typeof LAYOUT_ACTIONS.RESET_LAYOUT };
+
+export const GRID_COLUMNS = 12;
+// height of one grid row in pixels
+export const GRID_ROW_HEIGHT = 60;
+export const MIN_PANEL_WIDTH = 3;
+export const MIN_PANEL_HEIGHT = 3;
+export const MAX_PANEL_HEIGHT = 20;
+
+export const PANEL_IDS: PanelId[] = ['timeline', 'bars', 'heatmap', 'sankey', 'ratings', 'network', 'map', 'tagMatrix', 'tagCloud'];
+
+// Define initial state
+export const defaultLayout: LayoutState = [
+    { id: 'timeline', width: 12, height: 4, hidden: false },
+    { id: 'bars', width: 12, height: 8, hidden: false },
+    { id: 'heatmap', width: 12, height: 9, hidden: false },
+    { id: 'sankey', width: 12, height: 9, hidden: false },
+    { id: 'ratings', width: 12, height: 8, hidden: false },
+    { id: 'network', width: 12, height: 10, hidden: false },
+    { id: 'map', width: 12, height: 8, hidden: false },
+    { id: 'tagMatrix', width: 8, height: 10, hidden: false },
+    { id: 'tagCloud', width: 4, height: 10, hidden: false },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+// Keeps the known panels of `layout` (e.g. read back from storage) within bounds
+// and appends the panels it doesn't mention with their default size.
+export function sanitizeLayout(layout: unknown): LayoutState {
+    if (!Array.isArray(layout)) return defaultLayout;
+    const seen = new Set<PanelId>();
+    const panels: LayoutState = [];
+    for (const panel of layout) {
+        if (!panel || !PANEL_IDS.includes(panel.id) || seen.has(panel.id)) continue;
+        seen.add(panel.id);
+        panels.push({
+            id: panel.id,
+            width: clamp(Number(panel.width) || GRID_COLUMNS, MIN_PANEL_WIDTH, GRID_COLUMNS),
+            height: clamp(Number(panel.height) || MIN_PANEL_HEIGHT, MIN_PANEL_HEIGHT, MAX_PANEL_HEIGHT),
+            hidden: panel.hidden === true,
+        });
+    }
+    return [...panels, ...defaultLayout.filter(panel => !seen.has(panel.id))];
+}
+
+const update = (state: LayoutState, id: PanelId, change: Partial<PanelLayout>) =>
+    state.map(panel => (panel.id === id ? { ...panel, ...change } : panel));
+
+// reducer function
+export const layoutReducer = (state: LayoutState, action: LayoutAction): LayoutState => {
+    switch (action.type) {
+        case LAYOUT_ACTIONS.MOVE_PANEL: {
+            if (action.id === action.before) return state;
+            const moved = state.find(panel => panel.id === action.id);
+            if (!moved) return state;
+            const rest = state.filter(panel => panel.id !== action.id);
+            const index = action.before === null ? -1 : rest.findIndex(panel => panel.id === action.before);
+            return index < 0 ? [...rest, moved] : [...rest.slice(0, index), moved, ...rest.slice(index)];
+        }
+        case LAYOUT_ACTIONS.RESIZE_PANEL:
+            return update(state, action.id, {
+                width: clamp(action.width, MIN_PANEL_WIDTH, GRID_COLUMNS),
+                height: clamp(action.height, MIN_PANEL_HEIGHT, MAX_PANEL_HEIGHT),
+            });
+        case LAYOUT_ACTIONS.HIDE_PANEL:
+            return update(state, action.id, { hidden: true });
+        case LAYOUT_ACTIONS.SHOW_PANEL: {
+            // a panel that comes back is added at the end of the dashboard
+            const panel = state.find(panel => panel.id === action.id);
+            if (!panel) return state;
+            return [...state.filter(p => p.id !== action.id), { ...panel, hidden: false }];
+        }
+        case LAYOUT_ACTIONS.SET_LAYOUT:
+            return sanitizeLayout(action.layout);
+        case LAYOUT_ACTIONS.RESET_LAYOUT:
+            return defaultLayout;
+        default:
+            return state;
+    }
+}
+
+export type { LayoutState, LayoutAction, PanelLayout, PanelId };
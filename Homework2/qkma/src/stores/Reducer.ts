@@ -1,25 +1,157 @@
+import { FILTER_LABELS, CATEGORY_FILTER_KEYS, LIST_FILTER_KEYS, FLAG_FILTER_KEYS, FilterState } from './FilterReducer';
+import { ViewState } from './ViewReducer';
+import type { DrillDown } from './DrillDownContext';
+
 // Define action types
-export const ACTIONS = { INCREMENT: 'increment' };
+export const HISTORY_ACTIONS = {
+    RECORD: 'record',
+    UNDO: 'undo',
+    REDO: 'redo',
+    JUMP: 'jump',
+    CLEAR: 'clear',
+} as const;
+
+// What undoing to a step restores. The layout is left out, moving panels
+// around is not part of exploring the data.
+interface Snapshot {
+    filters: FilterState;
+    view: ViewState;
+    drillDown: DrillDown | null;
+}
 
-interface Action{
-    type: string;
+interface HistoryEntry {
+    // shown in the breadcrumb, e.g. "Genre: Fantasy"
+    label: string;
+    // what the step changed, e.g. "filters.genre"
+    key: string;
+    time: number;
+    snapshot: Snapshot;
 }
 
-interface State{
-    count: number;
+// past is oldest first, future is next step first
+interface State {
+    past: HistoryEntry[];
+    present: HistoryEntry;
+    future: HistoryEntry[];
 }
 
+type Action =
+    | { type: typeof HISTORY_ACTIONS.RECORD, entry: HistoryEntry }
+    | { type: typeof HISTORY_ACTIONS.UNDO }
+    | { type: typeof HISTORY_ACTIONS.REDO }
+    // index into `past`
+    | { type: typeof HISTORY_ACTIONS.JUMP, index: number }
+    | { type: typeof HISTORY_ACTIONS.CLEAR, snapshot: Snapshot, label: string };
+
+export const HISTORY_LIMIT = 50;
+// steps on the same key closer than this are merged, so dragging a slider is one step
+export const HISTORY_MERGE_MS = 1000;
+
+const VIEW_LABELS: Record<keyof ViewState, string> = {
+    sankey: 'Sankey',
+    heatmapMode: 'Heatmap',
+    bar: 'Bars',
+    network: 'Network',
+    tags: 'Tag matrix',
+    mapMetric: 'Map',
+    facet: 'Small multiples',
+};
+
 // Define initial state
-const initialState: State = { count: 0 };
+export const initialHistoryState = (snapshot: Snapshot, label = 'Start'): State => ({
+    past: [],
+    present: { label, key: 'start', time: 0, snapshot },
+    future: [],
+});
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const listLabel = (values: string[]) => (values.length > 2 ? `${values[0]} +${values.length - 1}` : values.join(', '));
+
+// the changed filters, as "Genre: Fantasy"
+function describeFilters(prev: FilterState, next: FilterState) {
+    const changes: { key: string, label: string }[] = [];
+    [...CATEGORY_FILTER_KEYS, ...LIST_FILTER_KEYS].forEach(key => {
+        if (same(prev[key], next[key])) return;
+        changes.push({ key, label: next[key].length ? `${FILTER_LABELS[key]}: ${listLabel(next[key])}` : `All ${FILTER_LABELS[key].toLowerCase()}` });
+    });
+    FLAG_FILTER_KEYS.forEach(key => {
+        if (prev[key] === next[key]) return;
+        changes.push({ key, label: `${FILTER_LABELS[key]}: ${next[key] === null ? 'Any' : next[key] ? 'Yes' : 'No'}` });
+    });
+    if (!same(prev.yearRange, next.yearRange)) {
+        changes.push({
+            key: 'yearRange',
+            label: next.yearRange ? `${FILTER_LABELS.yearRange}: ${next.yearRange[0]} – ${next.yearRange[1]}` : 'All years',
+        });
+    }
+    return changes;
+}
+
+// the changed chart setting, as "Heatmap: residual" or "Bars: layout grouped"
+function describeView(prev: ViewState, next: ViewState) {
+    const key = (Object.keys(VIEW_LABELS) as (keyof ViewState)[]).find(key => !same(prev[key], next[key]));
+    if (key === undefined) return null;
+    if (key === 'sankey') return { key, label: `${VIEW_LABELS[key]}: ${next.sankey.layers.join(' → ')}` };
+    const value = next[key];
+    if (typeof value !== 'object') return { key, label: `${VIEW_LABELS[key]}: ${value}` };
+    const setting = (Object.keys(value) as (keyof typeof value)[]).find(setting => prev[key][setting] !== value[setting]);
+    return { key, label: setting === undefined ? VIEW_LABELS[key] : `${VIEW_LABELS[key]}: ${setting} ${value[setting] ?? 'none'}` };
+}
+
+// Describes what changed between two snapshots, null when nothing did.
+export function describeChange(prev: Snapshot, next: Snapshot): { key: string, label: string } | null {
+    const filters = describeFilters(prev.filters, next.filters);
+    if (filters.length === 1) return { key: `filters.${filters[0].key}`, label: filters[0].label };
+    if (filters.length > 1) return { key: 'filters', label: `${filters.length} filters` };
+
+    const view = describeView(prev.view, next.view);
+    if (view) return { key: `view.${view.key}`, label: view.label };
+
+    if (prev.drillDown?.title !== next.drillDown?.title || prev.drillDown?.books !== next.drillDown?.books) {
+        return { key: 'drillDown', label: next.drillDown ? `Books: ${next.drillDown.title}` : 'Closed book list' };
+    }
+    return null;
+}
 
 // reducer function
-export const reducer = (state: State, action: Action) => { 
+export const historyReducer = (state: State, action: Action): State => {
     switch (action.type) {
-        case ACTIONS.INCREMENT:
-            return { count: state.count + 1 };
+        case HISTORY_ACTIONS.RECORD: {
+            const { present } = state;
+            // the first step always stays, so there is something to go back to
+            const merge = state.past.length > 0
+                && present.key === action.entry.key
+                && action.entry.time - present.time < HISTORY_MERGE_MS;
+            if (merge) return { ...state, present: action.entry, future: [] };
+            return { past: [...state.past, present].slice(-HISTORY_LIMIT), present: action.entry, future: [] };
+        }
+        case HISTORY_ACTIONS.UNDO:
+            if (state.past.length === 0) return state;
+            return {
+                past: state.past.slice(0, -1),
+                present: state.past[state.past.length - 1],
+                future: [state.present, ...state.future],
+            };
+        case HISTORY_ACTIONS.REDO:
+            if (state.future.length === 0) return state;
+            return {
+                past: [...state.past, state.present],
+                present: state.future[0],
+                future: state.future.slice(1),
+            };
+        case HISTORY_ACTIONS.JUMP:
+            if (action.index < 0 || action.index >= state.past.length) return state;
+            return {
+                past: state.past.slice(0, action.index),
+                present: state.past[action.index],
+                future: [...state.past.slice(action.index + 1), state.present, ...state.future],
+            };
+        case HISTORY_ACTIONS.CLEAR:
+            return initialHistoryState(action.snapshot, action.label);
         default:
             return state;
     }
 }
 
-export type { State, Action };
\ No newline at end of file
+export type { State, Action, Snapshot, HistoryEntry };
@@ -0,0 +1,117 @@
+import React from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import * as d3 from 'd3';
+import { createTheme, ThemeProvider } from '@mui/material/styles';
+import CssBaseline from '@mui/material/CssBaseline';
+import { grey } from '@mui/material/colors';
+import { useBooks } from './BookDataContext';
+import { chartTheme, PALETTES, ChartTheme, ThemeMode, PaletteName } from '../utils/theme';
+import { OTHER, DimensionKey } from '../utils/dimensions';
+
+const STORAGE_KEY = 'chart-theme';
+
+interface ThemeSettings {
+  mode: ThemeMode;
+  palette: PaletteName;
+}
+
+interface ThemeContextValue {
+  settings: ThemeSettings;
+  chart: ChartTheme;
+  setMode: (mode: ThemeMode) => void;
+  setPalette: (palette: PaletteName) => void;
+}
+
+// the saved choice, or light/dark following the system on the first visit
+function loadSettings(): ThemeSettings {
+  const fallback: ThemeSettings = {
+    mode: window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
+    palette: 'classic',
+  };
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      mode: saved?.mode === 'dark' || saved?.mode === 'light' ? saved.mode : fallback.mode,
+      palette: saved?.palette in PALETTES ? saved.palette : fallback.palette,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
+
+// Create provider component. Sets the MUI theme too, so panels, controls and charts switch together.
+export function ChartThemeProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<ThemeSettings>(loadSettings);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Could not save the color theme:', error);
+    }
+  }, [settings]);
+
+  const muiTheme = useMemo(() => createTheme({
+    palette: {
+      mode: settings.mode,
+      primary: {
+        main: settings.mode === 'dark' ? grey[300] : grey[700],
+      },
+      secondary: {
+        main: settings.mode === 'dark' ? grey[300] : grey[700],
+      },
+    },
+    components: {
+      MuiCssBaseline: {
+        styleOverrides: {
+          // svg text is black unless told otherwise, chart labels follow the page's text color
+          'svg text:not([fill])': { fill: 'currentColor' },
+        },
+      },
+    },
+  }), [settings.mode]);
+
+  const setMode = useCallback((mode: ThemeMode) => setSettings(prev => ({ ...prev, mode })), []);
+  const setPalette = useCallback((palette: PaletteName) => setSettings(prev => ({ ...prev, palette })), []);
+  const value = useMemo(() => ({
+    settings,
+    chart: chartTheme(settings.mode, settings.palette),
+    setMode,
+    setPalette,
+  }), [settings, setMode, setPalette]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <ThemeProvider theme={muiTheme}>
+        <CssBaseline />
+        {children}
+      </ThemeProvider>
+    </ThemeContext.Provider>
+  );
+}
+
+export function useChartTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error('useChartTheme must be used within a ChartThemeProvider');
+  return context;
+}
+
+// Color of a dimension value, the same in every chart: values get the palette's
+// colors by how many books they have in the whole dataset, not the filtered one.
+export function useCategoryColor() {
+  const { summary } = useBooks();
+  const { chart } = useChartTheme();
+
+  return useMemo(() => {
+    const scales = new Map<DimensionKey, d3.ScaleOrdinal<string, string>>();
+    return (key: DimensionKey, value: string) => {
+      if (value === OTHER) return chart.muted;
+      if (!scales.has(key)) {
+        scales.set(key, d3.scaleOrdinal<string, string>().domain(summary.values[key] ?? []).range(chart.categorical));
+      }
+      return scales.get(key)!(value);
+    };
+  }, [summary, chart]);
+}
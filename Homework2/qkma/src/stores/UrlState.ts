@@ -0,0 +1,187 @@
+import { useEffect, useRef } from 'react';
+import { useFilters } from './FilterContext';
+import { useView } from './ViewContext';
+import { useLayout } from './LayoutContext';
+import { useBooks } from './BookDataContext';
+import {
+    FILTER_ACTIONS, CATEGORY_FILTER_KEYS, LIST_FILTER_KEYS, FLAG_FILTER_KEYS, initialFilterState, FilterState,
+} from './FilterReducer';
+import {
+    VIEW_ACTIONS, MIN_SANKEY_LAYERS, initialViewState,
+    ViewState, HeatmapMode, BarLayout, BarSort, NetworkSizeBy, TagOrder, MapMetric, FacetScales,
+} from './ViewReducer';
+import { LAYOUT_ACTIONS, defaultLayout, sanitizeLayout, LayoutState, PanelId } from './LayoutReducer';
+import type { DimensionKey } from '../utils/dimensions';
+
+// Everything a shared link restores. The dataset itself is not part of it,
+// a link always opens on the built-in books.
+interface DashboardState {
+    filters: FilterState;
+    view: ViewState;
+    layout: LayoutState;
+}
+
+const HEATMAP_MODES: HeatmapMode[] = ['count', 'decadeShare', 'genreShare', 'residual'];
+const BAR_LAYOUTS: BarLayout[] = ['stacked', 'grouped', 'normalized'];
+const BAR_SORTS: BarSort[] = ['total', 'alphabetical', 'stackShare'];
+const NETWORK_SIZES: NetworkSizeBy[] = ['books', 'rank'];
+const TAG_ORDERS: TagOrder[] = ['frequency', 'cluster'];
+const MAP_METRICS: MapMetric[] = ['count', 'rating'];
+const FACET_SCALES: FacetScales[] = ['shared', 'independent'];
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+    (allowed as string[]).includes(value ?? '') ? value as T : fallback;
+
+const integer = (value: string | null, fallback: number) => {
+    const parsed = Number(value);
+    return value !== null && Number.isInteger(parsed) ? parsed : fallback;
+};
+
+// "timeline:12x4,-bars:6x8", a leading "-" marks a hidden panel
+function encodeLayout(layout: LayoutState) {
+    return layout.map(p => `${p.hidden ? '-' : ''}${p.id}:${p.width}x${p.height}`).join(',');
+}
+
+function decodeLayout(value: string): LayoutState {
+    return sanitizeLayout(value.split(',').map(item => {
+        const [, hidden, id, width, height] = /^(-?)(\w+):(\d+)x(\d+)$/.exec(item) ?? [];
+        return { id: id as PanelId, width: Number(width), height: Number(height), hidden: hidden === '-' };
+    }));
+}
+
+// Writes the state as query parameters, leaving out whatever equals the defaults
+// so links stay short. Multi-valued filters repeat their parameter.
+export function encodeDashboardState({ filters, view, layout }: DashboardState) {
+    const params = new URLSearchParams();
+
+    [...CATEGORY_FILTER_KEYS, ...LIST_FILTER_KEYS].forEach(key => filters[key].forEach(value => params.append(key, value)));
+    FLAG_FILTER_KEYS.forEach(key => {
+        if (filters[key] !== null) params.set(key, filters[key] ? 'yes' : 'no');
+    });
+    if (filters.yearRange) params.set('years', `${filters.yearRange[0]}..${filters.yearRange[1]}`);
+
+    const defaults = initialViewState;
+    if (view.heatmapMode !== defaults.heatmapMode) params.set('heatmap', view.heatmapMode);
+    if (view.bar.layout !== defaults.bar.layout) params.set('bars', view.bar.layout);
+    if (view.bar.sort !== defaults.bar.sort) {
+        params.set('barSort', view.bar.sort === 'stackShare' ? `stackShare:${view.bar.sortStack ?? ''}` : view.bar.sort);
+    }
+    if (view.bar.collapseSmall) params.set('barOther', 'yes');
+    if (view.sankey.layers.join() !== defaults.sankey.layers.join()) {
+        view.sankey.layers.forEach(layer => params.append('sankey', layer));
+    }
+    if (view.sankey.topN !== defaults.sankey.topN) params.set('sankeyTop', String(view.sankey.topN));
+    if (view.network.sizeBy !== defaults.network.sizeBy) params.set('networkSize', view.network.sizeBy);
+    if (view.network.minDegree !== defaults.network.minDegree) params.set('minDegree', String(view.network.minDegree));
+    if (view.tags.order !== defaults.tags.order) params.set('tagOrder', view.tags.order);
+    if (view.tags.topN !== defaults.tags.topN) params.set('tagTop', String(view.tags.topN));
+    if (view.mapMetric !== defaults.mapMetric) params.set('map', view.mapMetric);
+    if (view.facet.bars) params.set('barFacet', view.facet.bars);
+    if (view.facet.heatmap) params.set('heatmapFacet', view.facet.heatmap);
+    if (view.facet.scales !== defaults.facet.scales) params.set('facetScales', view.facet.scales);
+
+    if (encodeLayout(layout) !== encodeLayout(defaultLayout)) params.set('layout', encodeLayout(layout));
+    return params.toString();
+}
+
+// Reads a query string written by `encodeDashboardState`. Missing parameters
+// fall back to the defaults, except the layout, which is null when absent.
+export function decodeDashboardState(search: string, dimensions: DimensionKey[]) {
+    const params = new URLSearchParams(search);
+
+    const filters: FilterState = { ...initialFilterState };
+    [...CATEGORY_FILTER_KEYS, ...LIST_FILTER_KEYS].forEach(key => {
+        filters[key] = params.getAll(key);
+    });
+    FLAG_FILTER_KEYS.forEach(key => {
+        const value = params.get(key);
+        filters[key] = value === 'yes' ? true : value === 'no' ? false : null;
+    });
+    const years = /^(-?\d+)\.\.(-?\d+)$/.exec(params.get('years') ?? '');
+    filters.yearRange = years ? [Number(years[1]), Number(years[2])] : null;
+
+    const defaults = initialViewState;
+    const [sort, sortStack] = (params.get('barSort') ?? '').split(/:(.*)/s);
+    // layers of another (uploaded) dataset are not available after a reload
+    const layers = params.getAll('sankey').filter(layer => dimensions.includes(layer as DimensionKey)) as DimensionKey[];
+    const facetBy = (name: string) => {
+        const value = params.get(name) as DimensionKey | null;
+        return value !== null && dimensions.includes(value) ? value : null;
+    };
+    const view: ViewState = {
+        heatmapMode: oneOf(params.get('heatmap'), HEATMAP_MODES, defaults.heatmapMode),
+        bar: {
+            layout: oneOf(params.get('bars'), BAR_LAYOUTS, defaults.bar.layout),
+            sort: oneOf(sort, BAR_SORTS, defaults.bar.sort),
+            sortStack: sort === 'stackShare' && sortStack ? sortStack : null,
+            collapseSmall: params.get('barOther') === 'yes',
+        },
+        sankey: {
+            layers: layers.length >= MIN_SANKEY_LAYERS ? layers : defaults.sankey.layers,
+            topN: Math.max(1, integer(params.get('sankeyTop'), defaults.sankey.topN)),
+        },
+        network: {
+            sizeBy: oneOf(params.get('networkSize'), NETWORK_SIZES, defaults.network.sizeBy),
+            minDegree: Math.max(1, integer(params.get('minDegree'), defaults.network.minDegree)),
+        },
+        tags: {
+            order: oneOf(params.get('tagOrder'), TAG_ORDERS, defaults.tags.order),
+            topN: Math.max(2, integer(params.get('tagTop'), defaults.tags.topN)),
+        },
+        mapMetric: oneOf(params.get('map'), MAP_METRICS, defaults.mapMetric),
+        facet: {
+            bars: facetBy('barFacet'),
+            heatmap: facetBy('heatmapFacet'),
+            scales: oneOf(params.get('facetScales'), FACET_SCALES, defaults.facet.scales),
+        },
+    };
+
+    const layout = params.has('layout') ? decodeLayout(params.get('layout')!) : null;
+    return { filters, view, layout };
+}
+
+// Keeps the query string in step with the dashboard: every change pushes a
+// history entry, and loading a link or going back/forward restores the state.
+export function useUrlState() {
+    const { filters, dispatch: filterDispatch } = useFilters();
+    const { view, dispatch: viewDispatch } = useView();
+    const { layout, dispatch: layoutDispatch } = useLayout();
+    const { dataset } = useBooks();
+    // read when going back/forward, long after the listener was added
+    const dimensions = useRef(dataset.dimensions);
+    dimensions.current = dataset.dimensions;
+    // query of the state being restored; until it has rendered nothing is written,
+    // and once it has, the url is only normalized instead of getting a new entry
+    const restoring = useRef<string | null>(null);
+
+    function restore(search: string, fallbackLayout: LayoutState | null) {
+        const state = decodeDashboardState(search, dimensions.current);
+        // a link without a layout keeps the one saved in this browser
+        const nextLayout = state.layout ?? fallbackLayout ?? layout;
+        restoring.current = encodeDashboardState({ ...state, layout: nextLayout });
+        filterDispatch({ type: FILTER_ACTIONS.SET_FILTERS, filters: state.filters });
+        viewDispatch({ type: VIEW_ACTIONS.SET_VIEW, view: state.view });
+        layoutDispatch({ type: LAYOUT_ACTIONS.SET_LAYOUT, layout: nextLayout });
+    }
+
+    useEffect(() => {
+        restore(window.location.search, null);
+        const onPopState = () => restore(window.location.search, defaultLayout);
+        window.addEventListener('popstate', onPopState);
+        return () => window.removeEventListener('popstate', onPopState);
+    }, []);
+
+    useEffect(() => {
+        const query = encodeDashboardState({ filters, view, layout });
+        const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+        if (restoring.current !== null) {
+            if (query !== restoring.current) return;
+            restoring.current = null;
+            window.history.replaceState(null, '', url);
+        } else if (query !== window.location.search.replace(/^\?/, '')) {
+            window.history.pushState(null, '', url);
+        }
+    }, [filters, view, layout]);
+}
+
+export type { DashboardState };
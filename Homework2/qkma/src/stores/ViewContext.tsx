@@ -0,0 +1,22 @@
+import React from 'react'
+import { createContext, useContext, useReducer, ReactNode } from 'react';
+import { viewReducer, initialViewState, ViewState, ViewAction } from './ViewReducer';
+
+const ViewContext = createContext<{ view: ViewState, dispatch: React.Dispatch<ViewAction> } | undefined>(undefined);
+
+// Create provider component
+export function ViewProvider({ children }: { children: ReactNode }) {
+  const [view, dispatch] = useReducer(viewReducer, initialViewState);
+
+  return (
+    <ViewContext.Provider value={{ view, dispatch }}>
+      {children}
+    </ViewContext.Provider>
+  );
+}
+
+export function useView() {
+  const context = useContext(ViewContext);
+  if (!context) throw new Error('useView must be used within a ViewProvider');
+  return context;
+}
@@ -0,0 +1,200 @@
+import type { DimensionKey } from '../utils/dimensions';
+
+// Define action types
+export const VIEW_ACTIONS = {
+    SET_SANKEY_LAYERS: 'setSankeyLayers',
+    SET_SANKEY_TOP_N: 'setSankeyTopN',
+    RESET_SANKEY: 'resetSankey',
+    SET_HEATMAP_MODE: 'setHeatmapMode',
+    SET_BAR_LAYOUT: 'setBarLayout',
+    SET_BAR_SORT: 'setBarSort',
+    SET_BAR_COLLAPSE: 'setBarCollapse',
+    SET_NETWORK_SIZE_BY: 'setNetworkSizeBy',
+    SET_NETWORK_MIN_DEGREE: 'setNetworkMinDegree',
+    SET_TAG_ORDER: 'setTagOrder',
+    SET_TAG_TOP_N: 'setTagTopN',
+    SET_MAP_METRIC: 'setMapMetric',
+    SET_FACET: 'setFacet',
+    SET_FACET_SCALES: 'setFacetScales',
+    SET_VIEW: 'setView',
+} as const;
+
+// what the heatmap colors: raw counts, shares within a decade (column) or
+// genre (row), or the chi-square residual against independence
+type HeatmapMode = 'count' | 'decadeShare' | 'genreShare' | 'residual';
+
+type BarLayout = 'stacked' | 'grouped' | 'normalized';
+type BarSort = 'total' | 'alphabetical' | 'stackShare';
+
+interface BarConfig {
+    layout: BarLayout;
+    sort: BarSort;
+    // age category whose share orders the genres when sorting by 'stackShare'
+    sortStack: string | null;
+    // fold genres below SMALL_GENRE_SHARE of all books into "Other"
+    collapseSmall: boolean;
+}
+
+// network nodes are sized by how many books they have or by their best swap rank
+type NetworkSizeBy = 'books' | 'rank';
+
+interface NetworkConfig {
+    sizeBy: NetworkSizeBy;
+    // nodes connected to fewer distinct authors/publishers are hidden
+    minDegree: number;
+}
+
+type TagOrder = 'frequency' | 'cluster';
+
+interface TagConfig {
+    // row/column order of the co-occurrence matrix
+    order: TagOrder;
+    // most frequent tags shown in the matrix
+    topN: number;
+}
+
+interface SankeyConfig {
+    // dimensions shown as Sankey columns, left to right
+    layers: DimensionKey[];
+    // values kept per layer before the rest is folded into "Other"
+    topN: number;
+}
+
+// what the country map colors: number of books or their average rating
+type MapMetric = 'count' | 'rating';
+
+// charts that can be split into small multiples
+type FacetChart = 'bars' | 'heatmap';
+// whether the small multiples share their axes and color scale
+type FacetScales = 'shared' | 'independent';
+
+interface FacetConfig {
+    // dimension each chart is split by, null shows it whole
+    bars: DimensionKey | null;
+    heatmap: DimensionKey | null;
+    scales: FacetScales;
+}
+
+// How the charts are configured, as opposed to which books they show.
+interface ViewState {
+    sankey: SankeyConfig;
+    heatmapMode: HeatmapMode;
+    bar: BarConfig;
+    network: NetworkConfig;
+    tags: TagConfig;
+    mapMetric: MapMetric;
+    facet: FacetConfig;
+}
+
+type ViewAction =
+    | { type: typeof VIEW_ACTIONS.SET_SANKEY_LAYERS, layers: DimensionKey[] }
+    | { type: typeof VIEW_ACTIONS.SET_SANKEY_TOP_N, topN: number }
+    // without layers, back to the built-in dataset's
+    | { type: typeof VIEW_ACTIONS.RESET_SANKEY, layers?: DimensionKey[] }
+    | { type: typeof VIEW_ACTIONS.SET_HEATMAP_MODE, mode: HeatmapMode }
+    | { type: typeof VIEW_ACTIONS.SET_BAR_LAYOUT, layout: BarLayout }
+    | { type: typeof VIEW_ACTIONS.SET_BAR_SORT, sort: BarSort, stack?: string | null }
+    | { type: typeof VIEW_ACTIONS.SET_BAR_COLLAPSE, collapse: boolean }
+    | { type: typeof VIEW_ACTIONS.SET_NETWORK_SIZE_BY, sizeBy: NetworkSizeBy }
+    | { type: typeof VIEW_ACTIONS.SET_NETWORK_MIN_DEGREE, minDegree: number }
+    | { type: typeof VIEW_ACTIONS.SET_TAG_ORDER, order: TagOrder }
+    | { type: typeof VIEW_ACTIONS.SET_TAG_TOP_N, topN: number }
+    | { type: typeof VIEW_ACTIONS.SET_MAP_METRIC, metric: MapMetric }
+    | { type: typeof VIEW_ACTIONS.SET_FACET, chart: FacetChart, by: DimensionKey | null }
+    | { type: typeof VIEW_ACTIONS.SET_FACET_SCALES, scales: FacetScales }
+    | { type: typeof VIEW_ACTIONS.SET_VIEW, view: ViewState };
+
+export const MIN_SANKEY_LAYERS = 2;
+
+export const defaultSankeyConfig: SankeyConfig = {
+    layers: ['genre', 'age_category', 'adapted_to_movie', 'bestseller_status'],
+    topN: 10,
+};
+
+export const SMALL_GENRE_SHARE = 0.02;
+
+export const defaultBarConfig: BarConfig = {
+    layout: 'stacked',
+    sort: 'total',
+    sortStack: null,
+    collapseSmall: false,
+};
+
+export const defaultNetworkConfig: NetworkConfig = {
+    sizeBy: 'books',
+    minDegree: 1,
+};
+
+export const defaultTagConfig: TagConfig = {
+    order: 'frequency',
+    topN: 25,
+};
+
+// dimensions offered for small multiples; an uploaded dataset offers its own columns too
+export const FACET_KEYS: DimensionKey[] = ['language', 'age_category', 'most_popular_country'];
+// values that get their own small multiple, the rest share an "Other" one
+export const FACET_LIMIT = 6;
+
+export const defaultFacetConfig: FacetConfig = {
+    bars: null,
+    heatmap: null,
+    scales: 'shared',
+};
+
+// Define initial state
+export const initialViewState: ViewState = {
+    sankey: defaultSankeyConfig,
+    heatmapMode: 'count',
+    bar: defaultBarConfig,
+    network: defaultNetworkConfig,
+    tags: defaultTagConfig,
+    mapMetric: 'count',
+    facet: defaultFacetConfig,
+};
+
+// reducer function
+export const viewReducer = (state: ViewState, action: ViewAction): ViewState => {
+    switch (action.type) {
+        case VIEW_ACTIONS.SET_SANKEY_LAYERS:
+            if (action.layers.length < MIN_SANKEY_LAYERS) return state;
+            return { ...state, sankey: { ...state.sankey, layers: [...action.layers] } };
+        case VIEW_ACTIONS.SET_SANKEY_TOP_N:
+            return { ...state, sankey: { ...state.sankey, topN: Math.max(1, Math.round(action.topN)) } };
+        case VIEW_ACTIONS.RESET_SANKEY:
+            return {
+                ...state,
+                sankey: action.layers ? { ...defaultSankeyConfig, layers: [...action.layers] } : defaultSankeyConfig,
+            };
+        case VIEW_ACTIONS.SET_HEATMAP_MODE:
+            return { ...state, heatmapMode: action.mode };
+        case VIEW_ACTIONS.SET_BAR_LAYOUT:
+            return { ...state, bar: { ...state.bar, layout: action.layout } };
+        case VIEW_ACTIONS.SET_BAR_SORT:
+            return { ...state, bar: { ...state.bar, sort: action.sort, sortStack: action.stack ?? null } };
+        case VIEW_ACTIONS.SET_BAR_COLLAPSE:
+            return { ...state, bar: { ...state.bar, collapseSmall: action.collapse } };
+        case VIEW_ACTIONS.SET_NETWORK_SIZE_BY:
+            return { ...state, network: { ...state.network, sizeBy: action.sizeBy } };
+        case VIEW_ACTIONS.SET_NETWORK_MIN_DEGREE:
+            return { ...state, network: { ...state.network, minDegree: Math.max(1, Math.round(action.minDegree)) } };
+        case VIEW_ACTIONS.SET_TAG_ORDER:
+            return { ...state, tags: { ...state.tags, order: action.order } };
+        case VIEW_ACTIONS.SET_TAG_TOP_N:
+            return { ...state, tags: { ...state.tags, topN: Math.max(2, Math.round(action.topN)) } };
+        case VIEW_ACTIONS.SET_MAP_METRIC:
+            return { ...state, mapMetric: action.metric };
+        case VIEW_ACTIONS.SET_FACET:
+            return { ...state, facet: { ...state.facet, [action.chart]: action.by } };
+        case VIEW_ACTIONS.SET_FACET_SCALES:
+            return { ...state, facet: { ...state.facet, scales: action.scales } };
+        case VIEW_ACTIONS.SET_VIEW:
+            return { ...action.view };
+        default:
+            return state;
+    }
+}
+
+export type {
+    ViewState, ViewAction, SankeyConfig, HeatmapMode, BarConfig, BarLayout, BarSort, NetworkConfig, NetworkSizeBy,
+    TagConfig, TagOrder, MapMetric, FacetChart, FacetScales, FacetConfig,
+};
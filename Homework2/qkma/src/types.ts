@@ -18,4 +18,31 @@ export interface Point {
 
 export interface Bar{
     readonly value: number;
-}
\ No newline at end of file
+}
+
+// One row of top_1000_most_swapped_books.csv, parsed into typed fields.
+// Field names follow the CSV header so the columns are easy to look up.
+export interface Book {
+    readonly id: number;
+    readonly title: string;
+    readonly author: string;
+    readonly genre: string;
+    readonly language: string;
+    readonly publicationYear: number;
+    readonly publisher: string;
+    readonly description: string;
+    readonly pageCount: number;
+    readonly tags: string[];
+    readonly rating_average: number;
+    readonly most_popular_country: string;
+    readonly bestseller_status: boolean;
+    readonly awards: string[];
+    readonly age_category: string;
+    readonly adapted_to_movie: boolean;
+    readonly movie_release_year: number | null;
+    readonly isbn: string;
+    // how much the row counts in aggregates, 1 for the built-in dataset
+    readonly weight: number;
+    // extra columns of an uploaded csv, keyed by column name
+    readonly attributes: Record<string, string>;
+}
@@ -0,0 +1,20 @@
+import type { CSSProperties } from 'react';
+
+// Hides content visually while keeping it in the accessibility tree.
+export const visuallyHidden: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+// the svg label every chart shares, naming the chart and how to use it from the keyboard
+export function chartLabel(title: string, marks: string) {
+  return `${title}. Tab to the chart, use the arrow keys to move between ${marks}, `
+    + 'Enter to filter and Shift+Enter to list the books.';
+}
@@ -0,0 +1,223 @@
+import * as d3 from 'd3';
+import { nextInGrid, GridPosition } from './chart';
+
+// Above this many marks a chart draws them on a canvas instead of one SVG element
+// each. Axes, legends and labels stay in the SVG either way.
+export const CANVAS_MARK_THRESHOLD = 2000;
+
+// 'auto' switches to canvas above `CANVAS_MARK_THRESHOLD` marks
+export type Renderer = 'auto' | 'svg' | 'canvas';
+
+export const usesCanvas = (renderer: Renderer, markCount: number) =>
+  renderer === 'canvas' || (renderer === 'auto' && markCount > CANVAS_MARK_THRESHOLD);
+
+// Lays the canvas over the chart's svg; pointer events go through to the svg,
+// which does the hit-testing (see `attachCanvasInteraction`).
+export const CANVAS_STYLE = { position: 'absolute', top: 0, left: 0, pointerEvents: 'none' } as const;
+
+interface MarkStyle {
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+// One mark drawn on the canvas, in svg pixel coordinates, with the datum it stands for.
+export type CanvasMark<D> = MarkStyle & { datum: D } & (
+  | { shape: 'rect', x: number, y: number, width: number, height: number }
+  | { shape: 'circle', cx: number, cy: number, r: number }
+);
+
+// Sizes `canvas` to `width` × `height` css pixels, backed by device pixels so the
+// marks stay sharp on high-density screens, and clears it.
+function resizeCanvas(canvas: HTMLCanvasElement, width: number, height: number) {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  const context = canvas.getContext('2d')!;
+  context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return context;
+}
+
+export function drawCanvasMarks<D>(canvas: HTMLCanvasElement, width: number, height: number, marks: CanvasMark<D>[]) {
+  const context = resizeCanvas(canvas, width, height);
+  marks.forEach(mark => {
+    context.globalAlpha = mark.opacity ?? 1;
+    context.beginPath();
+    if (mark.shape === 'rect') context.rect(mark.x, mark.y, mark.width, mark.height);
+    else context.arc(mark.cx, mark.cy, mark.r, 0, 2 * Math.PI);
+    context.fillStyle = mark.fill;
+    context.fill();
+    if (mark.stroke) {
+      context.lineWidth = mark.strokeWidth ?? 1;
+      context.strokeStyle = mark.stroke;
+      context.stroke();
+    }
+  });
+  context.globalAlpha = 1;
+}
+
+// Empties the canvas while the chart draws in SVG; a zero size also keeps it out of exports.
+export function clearCanvas(canvas: HTMLCanvasElement) {
+  resizeCanvas(canvas, 0, 0);
+}
+
+const centerOf = (mark: CanvasMark<unknown>): [number, number] =>
+  (mark.shape === 'rect' ? [mark.x + mark.width / 2, mark.y + mark.height / 2] : [mark.cx, mark.cy]);
+
+const contains = (mark: CanvasMark<unknown>, x: number, y: number) => (mark.shape === 'rect'
+  ? x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height
+  : (x - mark.cx) ** 2 + (y - mark.cy) ** 2 <= mark.r ** 2);
+
+// Finds the mark under a point. Marks are indexed by their centers in a quadtree
+// and only the cells within reach of the largest mark are searched; when marks
+// overlap the one drawn last, i.e. on top, wins.
+export function canvasHitTester<D>(marks: CanvasMark<D>[]) {
+  type Entry = { mark: CanvasMark<D>, index: number };
+  const tree = d3.quadtree<Entry>()
+    .x(d => centerOf(d.mark)[0])
+    .y(d => centerOf(d.mark)[1])
+    .addAll(marks.map((mark, index) => ({ mark, index })));
+  const reachX = d3.max(marks, d => (d.shape === 'rect' ? d.width / 2 : d.r)) ?? 0;
+  const reachY = d3.max(marks, d => (d.shape === 'rect' ? d.height / 2 : d.r)) ?? 0;
+
+  return (x: number, y: number): D | undefined => {
+    let hit: Entry | undefined;
+    tree.visit((node, x0, y0, x1, y1) => {
+      if (!node.length) {
+        let leaf: d3.QuadtreeLeaf<Entry> | undefined = node as d3.QuadtreeLeaf<Entry>;
+        for (; leaf; leaf = leaf.next) {
+          if (contains(leaf.data.mark, x, y) && (!hit || leaf.data.index > hit.index)) hit = leaf.data;
+        }
+      }
+      return x0 > x + reachX || x1 < x - reachX || y0 > y + reachY || y1 < y - reachY;
+    });
+    return hit?.mark.datum;
+  };
+}
+
+export interface CanvasHandlers<D> {
+  show: (event: MouseEvent, d: D) => void;
+  move: (event: MouseEvent) => void;
+  hide: () => void;
+  click: (event: MouseEvent, d: D) => void;
+}
+
+// Hover and click for marks drawn on a canvas laid over `svg`. The canvas lets
+// pointer events through, so the svg listens and asks `hitTest` what is under
+// the pointer. Pass null to remove the listeners when the chart is back in SVG.
+export function attachCanvasInteraction<D>(
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  hitTest: ((x: number, y: number) => D | undefined) | null,
+  handlers?: CanvasHandlers<D>,
+) {
+  if (!hitTest || !handlers) {
+    svg.on('mousemove.canvas mouseleave.canvas click.canvas', null).style('cursor', null);
+    return;
+  }
+  let current: D | undefined;
+
+  svg
+    .on('mousemove.canvas', (event: MouseEvent) => {
+      const hit = hitTest(...d3.pointer(event));
+      if (hit !== current) {
+        current = hit;
+        if (hit === undefined) {
+          svg.style('cursor', null);
+          // an svg mark the pointer moved onto shows its own tooltip
+          if (!(event.target as Element).closest('[role=button]')) handlers.hide();
+        } else {
+          svg.style('cursor', 'pointer');
+          handlers.show(event, hit);
+        }
+      } else if (hit !== undefined) {
+        handlers.move(event);
+      }
+    })
+    .on('mouseleave.canvas', () => {
+      current = undefined;
+      svg.style('cursor', null);
+      handlers.hide();
+    })
+    .on('click.canvas', (event: MouseEvent) => {
+      const hit = hitTest(...d3.pointer(event));
+      if (hit !== undefined) handlers.click(event, hit);
+    });
+}
+
+export interface CanvasFocusHandlers<D> {
+  // the mark's place in the chart grid, as `setGridPosition` stores it for svg marks
+  position: (d: D) => GridPosition;
+  label: (d: D) => string;
+  show: (event: FocusEvent, d: D) => void;
+  hide: () => void;
+  click: (event: MouseEvent, d: D) => void;
+}
+
+const boundsOf = (mark: CanvasMark<unknown>) => (mark.shape === 'rect'
+  ? { x: mark.x, y: mark.y, width: mark.width, height: mark.height }
+  : { x: mark.cx - mark.r, y: mark.cy - mark.r, width: 2 * mark.r, height: 2 * mark.r });
+
+// Keyboard and screen-reader access to marks drawn on a canvas. One invisible,
+// focusable rect in `layer` stands in for the active mark: it takes the mark's
+// bounds and label, arrow keys move it between the marks by grid position like
+// `enableKeyboardNavigation` moves focus between svg marks, and Enter/Space act
+// like a click. It stays on the same place across redraws. Pass null to remove it
+// when the chart is back in SVG.
+export function attachCanvasFocus<D>(
+  layer: d3.Selection<SVGGElement, unknown, d3.BaseType, unknown>,
+  marks: CanvasMark<D>[] | null,
+  handlers?: CanvasFocusHandlers<D>,
+) {
+  const existing = layer.selectChildren<SVGRectElement, CanvasMark<D>>('rect.canvas-focus');
+  if (!marks || marks.length === 0 || !handlers) {
+    existing.remove();
+    return;
+  }
+  const positionOf = (mark: CanvasMark<D>) => handlers.position(mark.datum);
+  const ordered = marks.slice().sort((a, b) =>
+    d3.ascending(positionOf(a).row, positionOf(b).row) || d3.ascending(positionOf(a).col, positionOf(b).col));
+  const previous = existing.empty() ? undefined : positionOf(existing.datum());
+  let active = ordered.find(mark => previous && positionOf(mark).row === previous.row && positionOf(mark).col === previous.col)
+    ?? ordered[0];
+
+  const proxy = existing
+    .data([active])
+    .join(enter => enter.append('rect')
+      .attr('class', 'canvas-focus')
+      .attr('role', 'button')
+      .attr('tabindex', 0)
+      .attr('fill', 'none')
+      .style('pointer-events', 'none'));
+  const place = (mark: CanvasMark<D>) => {
+    active = mark;
+    const { x, y, width, height } = boundsOf(mark);
+    proxy
+      .datum(mark)
+      .attr('x', x)
+      .attr('y', y)
+      .attr('width', width)
+      .attr('height', height)
+      .attr('aria-label', handlers.label(mark.datum));
+  };
+  place(active);
+
+  proxy
+    .on('focus', (event: FocusEvent) => handlers.show(event, active.datum))
+    .on('blur', () => handlers.hide())
+    .on('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        handlers.click(new MouseEvent('click', { shiftKey: event.shiftKey }), active.datum);
+        return;
+      }
+      const next = nextInGrid(ordered, active, event.key, positionOf);
+      if (!next) return;
+      event.preventDefault();
+      place(next);
+      // the proxy keeps focus, so the tooltip and announcement follow it by hand
+      proxy.node()!.dispatchEvent(new FocusEvent('focus'));
+    });
+}
@@ -0,0 +1,98 @@
+import * as d3 from 'd3';
+
+// duration of the enter/update/exit transitions shared by all charts
+export const TRANSITION_MS = 600;
+
+// Returns the child `<tag class=className>` of `parent`, creating it on the first draw.
+// Charts keep their layers between renders and only re-join the data inside them.
+export function ensureLayer<E extends d3.BaseType = SVGGElement>(
+  parent: d3.Selection<d3.BaseType, unknown, d3.BaseType, unknown>,
+  className: string,
+  tag: string = 'g',
+) {
+  return parent
+    .selectChildren<E, null>(`${tag}.${className}`)
+    .data([null])
+    .join(enter => enter.append<E>(tag).attr('class', className));
+}
+
+// Stores a mark's place in the chart grid for `enableKeyboardNavigation`,
+// rows counting from the top and columns from the left.
+export function setGridPosition<E extends Element, D>(
+  selection: d3.Selection<E, D, d3.BaseType, unknown>,
+  row: (d: D) => number,
+  col: (d: D) => number,
+) {
+  selection
+    .attr('data-row', d => row(d))
+    .attr('data-col', d => col(d));
+}
+
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+const position = (el: Element): GridPosition => ({ row: Number(el.getAttribute('data-row')), col: Number(el.getAttribute('data-col')) });
+
+// Finds the item an arrow key moves to: the nearest column in that direction
+// (then the closest row), or the nearest row within the same column.
+export function nextInGrid<T>(items: T[], from: T, key: string, positionOf: (item: T) => GridPosition) {
+  const { row, col } = positionOf(from);
+  const candidates = items.map(item => ({ item, ...positionOf(item) }));
+  const closest = (pool: typeof candidates, distance: (c: typeof candidates[number]) => [number, number]) =>
+    d3.least(pool, (a, b) => d3.ascending(distance(a)[0], distance(b)[0]) || d3.ascending(distance(a)[1], distance(b)[1]))?.item;
+
+  switch (key) {
+    case 'ArrowRight':
+      return closest(candidates.filter(c => c.col > col), c => [c.col - col, Math.abs(c.row - row)]);
+    case 'ArrowLeft':
+      return closest(candidates.filter(c => c.col < col), c => [col - c.col, Math.abs(c.row - row)]);
+    case 'ArrowDown':
+      return closest(candidates.filter(c => c.col === col && c.row > row), c => [c.row - row, 0]);
+    case 'ArrowUp':
+      return closest(candidates.filter(c => c.col === col && c.row < row), c => [row - c.row, 0]);
+    case 'Home':
+      return items[0];
+    case 'End':
+      return items[items.length - 1];
+    default:
+      return undefined;
+  }
+}
+
+// Roving focus over the positioned marks inside `layer`: only one mark is in the
+// tab order, arrow keys move between marks and Enter/Space act like a click
+// (Shift+Enter like a shift+click). Call after every draw.
+export function enableKeyboardNavigation(layer: d3.Selection<SVGGElement, unknown, d3.BaseType, unknown>) {
+  const root = layer.node();
+  if (!root) return;
+  const marks = Array.from(root.querySelectorAll('[data-col]'));
+  const active = marks.find(el => el.hasAttribute('data-active')) ?? marks[0];
+  marks.forEach(el => el.setAttribute('tabindex', el === active ? '0' : '-1'));
+
+  layer
+    .on('focusin.nav', (event: FocusEvent) => {
+      const target = event.target as Element;
+      if (!target.hasAttribute('data-col')) return;
+      root.querySelectorAll('[data-active]').forEach(el => {
+        el.removeAttribute('data-active');
+        el.setAttribute('tabindex', '-1');
+      });
+      target.setAttribute('data-active', '');
+      target.setAttribute('tabindex', '0');
+    })
+    .on('keydown.nav', (event: KeyboardEvent) => {
+      const target = event.target as Element;
+      if (!target.hasAttribute('data-col')) return;
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        target.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: event.shiftKey }));
+        return;
+      }
+      const next = nextInGrid(Array.from(root.querySelectorAll('[data-col]')), target, event.key, position);
+      if (!next) return;
+      event.preventDefault();
+      (next as SVGElement).focus();
+    });
+}
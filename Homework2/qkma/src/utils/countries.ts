@@ -0,0 +1,61 @@
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import type { FeatureCollection, Geometry } from 'geojson';
+// bundled with the app so the map works offline
+import worldAtlas from 'world-atlas/countries-110m.json';
+
+export interface CountryProperties {
+  name: string;
+}
+
+export type CountryFeatures = FeatureCollection<Geometry, CountryProperties>;
+
+// `most_popular_country` spellings that differ from the Natural Earth names in world-atlas
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'United States of America',
+  'us': 'United States of America',
+  'u.s.': 'United States of America',
+  'u.s.a.': 'United States of America',
+  'united states': 'United States of America',
+  'america': 'United States of America',
+  'uk': 'United Kingdom',
+  'u.k.': 'United Kingdom',
+  'great britain': 'United Kingdom',
+  'britain': 'United Kingdom',
+  'england': 'United Kingdom',
+  'scotland': 'United Kingdom',
+  'wales': 'United Kingdom',
+  'northern ireland': 'United Kingdom',
+  'czech republic': 'Czechia',
+  'korea': 'South Korea',
+  'republic of korea': 'South Korea',
+  'russian federation': 'Russia',
+  'ussr': 'Russia',
+  'soviet union': 'Russia',
+  'holland': 'Netherlands',
+  'the netherlands': 'Netherlands',
+  'ivory coast': 'Côte d\'Ivoire',
+  'bosnia and herzegovina': 'Bosnia and Herz.',
+  'dominican republic': 'Dominican Rep.',
+  'democratic republic of the congo': 'Dem. Rep. Congo',
+  'north macedonia': 'Macedonia',
+  'swaziland': 'eSwatini',
+  'uae': 'United Arab Emirates',
+};
+
+let countries: CountryFeatures | undefined;
+
+// the world-atlas countries as GeoJSON, converted on first use
+export function worldCountries(): CountryFeatures {
+  if (!countries) {
+    const topology = worldAtlas as unknown as Topology<{ countries: GeometryCollection<CountryProperties> }>;
+    countries = feature(topology, topology.objects.countries) as CountryFeatures;
+  }
+  return countries;
+}
+
+// Maps a `most_popular_country` value to the name of its shape on the map.
+// Values the table doesn't know are passed through, so exact names still match.
+export function mapCountryName(value: string) {
+  return COUNTRY_ALIASES[value.trim().toLowerCase()] ?? value.trim();
+}
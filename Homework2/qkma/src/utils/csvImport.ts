@@ -0,0 +1,140 @@
+import * as d3 from 'd3';
+import { Book } from '../types';
+import { DimensionKey, attributeDimensionKey } from './dimensions';
+import { MIN_SANKEY_LAYERS } from '../stores/ViewReducer';
+
+export type ColumnType = 'number' | 'year' | 'boolean' | 'category' | 'text';
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+  distinct: number;
+  empty: number;
+}
+
+// Chart roles a column can be mapped to. Each role fills one field of `Book`,
+// flow layers are kept as attributes and become Sankey layers.
+type ScalarRole = 'title' | 'category' | 'stack' | 'time' | 'weight';
+
+export interface ColumnMapping {
+  title: string | null;
+  category: string | null;
+  stack: string | null;
+  time: string | null;
+  weight: string | null;
+  flowLayers: string[];
+}
+
+export const MAPPING_ROLES: { role: ScalarRole, label: string, description: string, required: boolean }[] = [
+  { role: 'category', label: 'Category', description: 'Bars of the bar chart and rows of the heatmap', required: true },
+  { role: 'stack', label: 'Stack', description: 'Segments of each bar', required: false },
+  { role: 'time', label: 'Time', description: 'Year used by the timeline and heatmap', required: false },
+  { role: 'weight', label: 'Weight', description: 'How much each row counts, 1 when unmapped', required: false },
+  { role: 'title', label: 'Title', description: 'Row name in tooltips and the book list', required: false },
+];
+
+const BOOLEANS = new Set(['true', 'false', 'yes', 'no', '0', '1']);
+// columns with at most this many distinct values (or this share of rows) count as categorical
+const MAX_CATEGORIES = 50;
+const MAX_CATEGORY_RATIO = 0.5;
+
+export function parseCsv(text: string) {
+  // strip a byte order mark so the first header keeps its name
+  return d3.csvParse(text.replace(/^\ufeff/, ''));
+}
+
+function inferType(values: string[]): ColumnType {
+  if (values.length === 0) return 'text';
+  if (values.every(v => BOOLEANS.has(v.toLowerCase()))) return 'boolean';
+  if (values.every(v => !Number.isNaN(+v))) {
+    const numbers = values.map(Number);
+    return numbers.every(n => Number.isInteger(n) && n >= 1000 && n <= 2100) ? 'year' : 'number';
+  }
+  const distinct = new Set(values).size;
+  return distinct <= MAX_CATEGORIES || distinct <= values.length * MAX_CATEGORY_RATIO ? 'category' : 'text';
+}
+
+export function inferColumns(rows: d3.DSVRowArray<string>): ColumnInfo[] {
+  return rows.columns.map(name => {
+    const values = rows.map(row => (row[name] ?? '').trim()).filter(v => v !== '');
+    return {
+      name,
+      type: inferType(values),
+      distinct: new Set(values).size,
+      empty: rows.length - values.length,
+    };
+  });
+}
+
+// Guesses a mapping from column names first, column types second.
+export function suggestMapping(columns: ColumnInfo[]): ColumnMapping {
+  const byName = (pattern: RegExp, types: ColumnType[]) =>
+    columns.find(c => pattern.test(c.name) && types.includes(c.type))?.name ?? null;
+  const byType = (type: ColumnType, exclude: (string | null)[]) =>
+    columns.find(c => c.type === type && !exclude.includes(c.name))?.name ?? null;
+
+  const title = byName(/title|name/i, ['text', 'category']);
+  const category = byName(/genre|category|type/i, ['category']) ?? byType('category', [title]);
+  const stack = byName(/age|group|segment/i, ['category', 'boolean']);
+  const time = byName(/year|date/i, ['year', 'number']) ?? byType('year', []);
+  const weight = byName(/weight|count|swaps?/i, ['number']);
+  const used = [title, category, stack, time, weight];
+  const flowLayers = columns
+    .filter(c => (c.type === 'category' || c.type === 'boolean') && !used.includes(c.name))
+    .slice(0, 3)
+    .map(c => c.name);
+
+  return { title, category, stack, time, weight, flowLayers };
+}
+
+export function mappingErrors(mapping: ColumnMapping): string[] {
+  const errors: string[] = [];
+  if (!mapping.category) errors.push('Choose a column for the category.');
+  // the Sankey diagram would otherwise fall back to columns the upload does not have
+  if (mappedDimensions(mapping).length < MIN_SANKEY_LAYERS) {
+    errors.push('Map a stack or flow layer column to give the Sankey diagram a second layer.');
+  }
+  return errors;
+}
+
+// Turns the uploaded rows into books, filling fields without a column with neutral defaults.
+export function mapRows(rows: d3.DSVRowArray<string>, mapping: ColumnMapping): Book[] {
+  const read = (row: d3.DSVRowString, column: string | null) => (column ? (row[column] ?? '').trim() : '');
+
+  return rows.map((row, i) => {
+    const weight = mapping.weight ? +read(row, mapping.weight) : 1;
+    const year = mapping.time ? parseInt(read(row, mapping.time), 10) : NaN;
+    const attributes: Record<string, string> = {};
+    mapping.flowLayers.forEach(column => { attributes[column] = read(row, column) || 'Unknown'; });
+
+    return {
+      id: i + 1,
+      title: read(row, mapping.title) || `Row ${i + 1}`,
+      author: 'Unknown',
+      genre: read(row, mapping.category) || 'Unknown',
+      language: 'Unknown',
+      publicationYear: year,
+      publisher: 'Unknown',
+      description: '',
+      pageCount: NaN,
+      tags: [],
+      rating_average: NaN,
+      most_popular_country: 'Unknown',
+      bestseller_status: false,
+      awards: [],
+      age_category: read(row, mapping.stack) || 'All',
+      adapted_to_movie: false,
+      movie_release_year: null,
+      isbn: '',
+      weight: Number.isFinite(weight) && weight >= 0 ? weight : 0,
+      attributes,
+    };
+  });
+}
+
+// Sankey layers that carry data for a mapped upload.
+export function mappedDimensions(mapping: ColumnMapping): DimensionKey[] {
+  const dimensions: DimensionKey[] = ['genre'];
+  if (mapping.stack) dimensions.push('age_category');
+  return dimensions.concat(mapping.flowLayers.map(attributeDimensionKey));
+}
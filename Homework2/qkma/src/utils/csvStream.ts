@@ -0,0 +1,51 @@
+import * as d3 from 'd3';
+
+// Parses csv text that arrives in chunks, e.g. from a fetch stream. Records are
+// handed to `onRows` as soon as they are complete; a record may span chunks and
+// quoted fields may hold line breaks, so a chunk is only cut after a line break
+// outside quotes.
+export function createCsvStream(onRows: (rows: d3.DSVRowString[]) => void) {
+  let header: string[] | null = null;
+  let pending = '';
+  // quote state at the end of `pending`, kept so every character is scanned once
+  let inQuotes = false;
+  let scanned = 0;
+
+  function emit(text: string) {
+    const records = d3.csvParseRows(text);
+    if (!header) {
+      const first = records.shift();
+      if (!first) return;
+      // strip a byte order mark so the first header keeps its name
+      header = first.map((name, i) => (i === 0 ? name.replace(/^\ufeff/, '') : name));
+    }
+    const columns = header;
+    const rows = records
+      .filter(record => record.length > 1 || record[0] !== '')
+      .map(record => Object.fromEntries(columns.map((name, i) => [name, record[i]])) as d3.DSVRowString);
+    if (rows.length > 0) onRows(rows);
+  }
+
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      let lastBreak = -1;
+      for (let i = scanned; i < pending.length; i++) {
+        const char = pending[i];
+        // an escaped quote ("") toggles twice and leaves the state unchanged
+        if (char === '"') inQuotes = !inQuotes;
+        else if (char === '\n' && !inQuotes) lastBreak = i;
+      }
+      if (lastBreak >= 0) {
+        emit(pending.slice(0, lastBreak + 1));
+        pending = pending.slice(lastBreak + 1);
+      }
+      scanned = pending.length;
+    },
+    end() {
+      if (pending.trim() !== '') emit(pending);
+      pending = '';
+      scanned = 0;
+    },
+  };
+}
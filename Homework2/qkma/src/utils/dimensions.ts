@@ -0,0 +1,115 @@
+import * as d3 from 'd3';
+import { Book } from '../types';
+import { FILTER_ACTIONS, CATEGORY_FILTER_KEYS, FilterAction, FilterState, CategoryFilterKey, FlagFilterKey } from '../stores/FilterReducer';
+
+// Categorical views of a book that charts can group by, e.g. the Sankey layers.
+type BuiltInDimensionKey =
+  | 'genre'
+  | 'age_category'
+  | 'adapted_to_movie'
+  | 'bestseller_status'
+  | 'language'
+  | 'most_popular_country'
+  | 'publisher'
+  | 'rating_bucket';
+
+// a column of an uploaded csv, read from `Book.attributes`
+type AttributeDimensionKey = `attr:${string}`;
+
+export type DimensionKey = BuiltInDimensionKey | AttributeDimensionKey;
+
+export interface Dimension {
+  key: DimensionKey;
+  label: string;
+  value: (d: Book) => string;
+  // the filter a click on one of the dimension's values toggles, if it can be filtered on
+  toggleFilter?: (value: string, filters: FilterState) => FilterAction;
+}
+
+const categoryFilter = (key: CategoryFilterKey) =>
+  (value: string): FilterAction => ({ type: FILTER_ACTIONS.TOGGLE_VALUE, key, value });
+
+const flagFilter = (key: FlagFilterKey, trueValue: string) =>
+  (value: string, filters: FilterState): FilterAction => {
+    const flag = value === trueValue;
+    return { type: FILTER_ACTIONS.SET_FLAG, key, value: filters[key] === flag ? null : flag };
+  };
+
+const RATING_THRESHOLDS = [3.75, 4, 4.25];
+const ratingBucket = d3.scaleThreshold<number, string>()
+  .domain(RATING_THRESHOLDS)
+  .range(['Below 3.75', '3.75 – 3.99', '4.00 – 4.24', '4.25 and above']);
+
+export const DIMENSIONS: Record<BuiltInDimensionKey, Dimension> = {
+  genre: {
+    key: 'genre',
+    label: 'Genre',
+    value: d => d.genre,
+    toggleFilter: categoryFilter('genre'),
+  },
+  age_category: {
+    key: 'age_category',
+    label: 'Age Category',
+    value: d => d.age_category,
+    toggleFilter: categoryFilter('age_category'),
+  },
+  adapted_to_movie: {
+    key: 'adapted_to_movie',
+    label: 'Movie Adaptation',
+    value: d => (d.adapted_to_movie ? 'Adapted To Movie' : 'Not Adapted To Movie'),
+    toggleFilter: flagFilter('adapted_to_movie', 'Adapted To Movie'),
+  },
+  bestseller_status: {
+    key: 'bestseller_status',
+    label: 'Bestseller Status',
+    value: d => (d.bestseller_status ? 'Bestseller' : 'Not Bestseller'),
+    toggleFilter: flagFilter('bestseller_status', 'Bestseller'),
+  },
+  language: {
+    key: 'language',
+    label: 'Language',
+    value: d => d.language,
+    toggleFilter: categoryFilter('language'),
+  },
+  most_popular_country: {
+    key: 'most_popular_country',
+    label: 'Country',
+    value: d => d.most_popular_country,
+    toggleFilter: categoryFilter('most_popular_country'),
+  },
+  publisher: {
+    key: 'publisher',
+    label: 'Publisher',
+    value: d => d.publisher,
+    toggleFilter: categoryFilter('publisher'),
+  },
+  rating_bucket: {
+    key: 'rating_bucket',
+    label: 'Rating',
+    value: d => (Number.isNaN(d.rating_average) ? 'Unknown' : ratingBucket(d.rating_average)),
+  },
+};
+
+export const DIMENSION_KEYS = Object.keys(DIMENSIONS) as BuiltInDimensionKey[];
+
+export const attributeDimensionKey = (column: string): AttributeDimensionKey => `attr:${column}`;
+
+const isAttributeKey = (key: DimensionKey): key is AttributeDimensionKey => key.startsWith('attr:');
+
+export function getDimension(key: DimensionKey): Dimension {
+  if (!isAttributeKey(key)) return DIMENSIONS[key];
+  const column = key.slice('attr:'.length);
+  return {
+    key,
+    label: column,
+    value: d => d.attributes[column] || 'Unknown',
+  };
+}
+
+export const OTHER = 'Other';
+
+// the categorical filter holding the dimension's selected values, if it has one
+export function categoryFilterKey(key: DimensionKey): CategoryFilterKey | null {
+  return (CATEGORY_FILTER_KEYS as DimensionKey[]).includes(key) ? key as CategoryFilterKey : null;
+}
+
@@ -0,0 +1,102 @@
+import * as d3 from 'd3';
+
+// presentation properties copied from the live chart, so the file looks the
+// same without the page's stylesheets
+const INLINED_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-opacity', 'stroke-width', 'stroke-dasharray',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility',
+];
+
+// revoking an object url before the browser has read the blob cancels the
+// download in Firefox and Safari, so it stays alive as long as FileSaver.js keeps it
+const REVOKE_DELAY_MS = 40000;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// Standalone markup of `svg` with its computed styles inlined.
+export function serializeSvg(svg: SVGSVGElement) {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const sources = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const targets = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  sources.forEach((source, i) => {
+    const computed = window.getComputedStyle(source);
+    const target = targets[i] as SVGElement;
+    INLINED_STYLES.forEach(property => {
+      const value = computed.getPropertyValue(property);
+      if (value) target.style.setProperty(property, value);
+    });
+    // keyboard focus styling and handlers mean nothing outside the page
+    target.removeAttribute('tabindex');
+  });
+
+  // marks drawn on a canvas over the svg (see `utils/canvas.ts`) go in as an image on top
+  svg.parentElement?.querySelectorAll<HTMLCanvasElement>('canvas.chart-canvas').forEach(canvas => {
+    if (canvas.width === 0) return;
+    const image = document.createElementNS('http://www.w3.org/2000/svg', 'image');
+    image.setAttribute('href', canvas.toDataURL('image/png'));
+    image.setAttribute('width', String(width));
+    image.setAttribute('height', String(height));
+    clone.appendChild(image);
+  });
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+export function exportSvg(svg: SVGSVGElement, fileName: string) {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+}
+
+export function exportPng(svg: SVGSVGElement, fileName: string, scale: number = 2, background: string = '#ffffff') {
+  const { width, height } = svg.getBoundingClientRect();
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+
+  return new Promise<void>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) {
+          downloadBlob(blob, `${fileName}.png`);
+          resolve();
+        } else {
+          reject(new Error('Could not rasterize the chart'));
+        }
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not load the serialized chart'));
+    };
+    image.src = url;
+  });
+}
+
+export function exportCsv(rows: object[], fileName: string) {
+  const csv = d3.csvFormat(rows as d3.DSVRowString[]);
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+}
+
+export function exportJson(data: unknown, fileName: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+}
@@ -0,0 +1,189 @@
+import * as d3 from 'd3';
+import { Book } from '../types';
+import { decadeOf, FilterKey, FilterState } from '../stores/FilterReducer';
+import { attributeDimensionKey, getDimension, DIMENSION_KEYS, DimensionKey } from './dimensions';
+
+// What a rollup can group by: any dimension, the publication decade or year, the
+// rating, the author, or a tag (a book with several tags counts once per tag).
+export type GroupKey = DimensionKey | 'decade' | 'year' | 'rating' | 'author' | 'tag';
+
+// Keeps the books with one of `values` for `key`, or with none of them when
+// `exclude` is set. When the rollup groups by `key`, only those values get rows.
+export interface ValueRestriction {
+  key: GroupKey;
+  values: readonly string[];
+  exclude?: boolean;
+}
+
+// How to sum books up: one row per `groupBy` combination, of the `restrict`ed books.
+// `ids: false` leaves the book ids out, for charts that never list the books.
+export interface RollupGrouping {
+  groupBy: readonly GroupKey[];
+  restrict?: readonly ValueRestriction[];
+  ids?: boolean;
+}
+
+// Books to aggregate, described by value so the query can be sent to the worker.
+export interface RollupQuery extends RollupGrouping {
+  filters: FilterState;
+  ignore: readonly FilterKey[];
+}
+
+// What the charts need to know about a set of books without holding the books.
+export interface RollupStats {
+  // total weight, and the number of books whatever their weight
+  value: number;
+  count: number;
+  // sum and number of the ratings, books without one are left out
+  ratingSum: number;
+  ratingCount: number;
+  // ascending, so the first ones are the most swapped; the books themselves
+  // are fetched when a drill-down or tooltip needs them
+  ids: number[];
+}
+
+// The books sharing one value per `groupBy` key.
+export interface RollupRow extends RollupStats {
+  keys: string[];
+}
+
+// What the charts need about the whole dataset, e.g. to keep an axis or the
+// category colors put while filtering. Sent once per dataset by the worker.
+export interface DatasetSummary {
+  rows: number;
+  total: number;
+  // every value of a key, the most frequent first
+  values: Partial<Record<GroupKey, string[]>>;
+  yearExtent: [number, number] | null;
+  ratingExtent: [number, number] | null;
+}
+
+export const EMPTY_SUMMARY: DatasetSummary = { rows: 0, total: 0, values: {}, yearExtent: null, ratingExtent: null };
+
+const known = (value: number) => (Number.isNaN(value) ? [] : [String(value)]);
+
+// A book's values for `key`, empty when it has none (e.g. no publication year).
+export function groupValues(key: GroupKey): (book: Book) => string[] {
+  switch (key) {
+    case 'decade':
+      return book => (Number.isNaN(book.publicationYear) ? [] : [String(decadeOf(book.publicationYear))]);
+    case 'year':
+      return book => known(book.publicationYear);
+    case 'rating':
+      return book => known(book.rating_average);
+    case 'author':
+      return book => [book.author];
+    case 'tag':
+      return book => book.tags;
+    default: {
+      const value = getDimension(key).value;
+      return book => [value(book)];
+    }
+  }
+}
+
+export const emptyStats = (): RollupStats => ({ value: 0, count: 0, ratingSum: 0, ratingCount: 0, ids: [] });
+
+function addBook(stats: RollupStats, book: Book, value: number, withId: boolean) {
+  stats.value += value;
+  stats.count += 1;
+  if (!Number.isNaN(book.rating_average)) {
+    stats.ratingSum += book.rating_average;
+    stats.ratingCount += 1;
+  }
+  if (withId) stats.ids.push(book.id);
+}
+
+// Adds `books` to the running totals. Kept separate from `rollupBooks` so the
+// worker can feed large datasets in slices and stop between them; call
+// `finishRollup` once all are in.
+export function accumulate(
+  totals: Map<string, RollupRow>,
+  books: Book[],
+  { groupBy, restrict = [], ids = true }: RollupGrouping,
+  value: (book: Book) => number = book => book.weight,
+) {
+  const groups = groupBy.map(groupValues);
+  const rules = restrict.map(({ key, values, exclude = false }) =>
+    ({ key, values: groupValues(key), allowed: new Set(values), exclude }));
+  const keep = (key: GroupKey, v: string) => rules.every(rule => rule.key !== key || rule.allowed.has(v) !== rule.exclude);
+  const outside = rules.filter(rule => !groupBy.includes(rule.key));
+
+  books.forEach(book => {
+    if (outside.some(rule => rule.values(book).some(v => rule.allowed.has(v)) === rule.exclude)) return;
+    // one row per combination of the book's values, books without a value for one of the keys are left out
+    let combinations: string[][] = [[]];
+    groupBy.forEach((key, i) => {
+      const values = groups[i](book).filter(v => keep(key, v));
+      combinations = combinations.flatMap(keys => values.map(v => [...keys, v]));
+    });
+    combinations.forEach(keys => {
+      const id = keys.join('\u0000');
+      if (!totals.has(id)) totals.set(id, { keys, ...emptyStats() });
+      addBook(totals.get(id)!, book, value(book), ids);
+    });
+  });
+  return totals;
+}
+
+// The rows of `totals`, their ids in ascending order.
+export function finishRollup(totals: Map<string, RollupRow>): RollupRow[] {
+  const rows = Array.from(totals.values());
+  rows.forEach(row => row.ids.sort(d3.ascending));
+  return rows;
+}
+
+// The whole rollup in one go, for books that are already chosen, e.g. passed in as props.
+export function rollupBooks(
+  books: Book[],
+  grouping: RollupGrouping,
+  value?: (book: Book) => number,
+): RollupRow[] {
+  return finishRollup(accumulate(new Map(), books, grouping, value));
+}
+
+// The stats of rows that share no books, as one.
+export function mergeStats(stats: RollupStats[]): RollupStats {
+  const merged = emptyStats();
+  stats.forEach(s => {
+    merged.value += s.value;
+    merged.count += s.count;
+    merged.ratingSum += s.ratingSum;
+    merged.ratingCount += s.ratingCount;
+    merged.ids = merged.ids.concat(s.ids);
+  });
+  if (stats.length > 1) merged.ids.sort(d3.ascending);
+  return merged;
+}
+
+// Sums the rows over every key but the one at `index`, e.g. the books per genre
+// out of a genre × age category rollup.
+export function totalsBy(rows: RollupRow[], index: number) {
+  const totals = new Map<string, number>();
+  rows.forEach(row => totals.set(row.keys[index], (totals.get(row.keys[index]) ?? 0) + row.value));
+  return totals;
+}
+
+export function summarizeDataset(books: Book[]): DatasetSummary {
+  const columns = books.length > 0 ? Object.keys(books[0].attributes).map(attributeDimensionKey) : [];
+  const keys: GroupKey[] = [...DIMENSION_KEYS, ...columns, 'author', 'tag'];
+  const values: Partial<Record<GroupKey, string[]>> = {};
+  keys.forEach(key => {
+    const valuesOf = groupValues(key);
+    const totals = new Map<string, number>();
+    books.forEach(book => valuesOf(book).forEach(v => totals.set(v, (totals.get(v) ?? 0) + book.weight)));
+    values[key] = Array.from(totals)
+      .sort((a, b) => b[1] - a[1] || d3.ascending(a[0], b[0]))
+      .map(d => d[0]);
+  });
+  const years = d3.extent(books, d => (Number.isNaN(d.publicationYear) ? undefined : d.publicationYear));
+  const ratings = d3.extent(books, d => (Number.isNaN(d.rating_average) ? undefined : d.rating_average));
+
+  return {
+    rows: books.length,
+    total: d3.sum(books, d => d.weight),
+    values,
+    yearExtent: years[0] === undefined ? null : years as [number, number],
+    ratingExtent: ratings[0] === undefined ? null : ratings as [number, number],
+  };
+}
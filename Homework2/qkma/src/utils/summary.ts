@@ -0,0 +1,20 @@
+import { RollupStats } from './rollup';
+
+export interface BookSummary {
+  count: number;
+  // count divided by the total the mark is compared against, 0 when the total is 0
+  share: number;
+  averageRating: number | undefined;
+  // ids of the most swapped books, the csv is ordered by swap rank; the tooltip
+  // fetches their titles when it opens
+  topIds: number[];
+}
+
+export function summarizeStats(stats: RollupStats, total: number, topN: number = 3): BookSummary {
+  return {
+    count: stats.value,
+    share: total > 0 ? stats.value / total : 0,
+    averageRating: stats.ratingCount > 0 ? stats.ratingSum / stats.ratingCount : undefined,
+    topIds: stats.ids.slice(0, topN),
+  };
+}
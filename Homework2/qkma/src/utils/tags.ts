@@ -0,0 +1,67 @@
+import * as d3 from 'd3';
+import { Book } from '../types';
+import { RollupRow } from './rollup';
+
+// spellings of the same keyword found in the csv, mapped to one name
+const TAG_ALIASES: Record<string, string> = {
+  'scifi': 'science fiction',
+  'sci fi': 'science fiction',
+  'ya': 'young adult',
+  'lgbtq': 'lgbt',
+  'lgbtq+': 'lgbt',
+  'end of the world': 'end of world',
+  'kid': 'kids',
+  'children': 'kids',
+};
+
+// Lower-cases a raw tag, turns "-" and "_" into spaces and applies TAG_ALIASES.
+export function normalizeTag(tag: string) {
+  const clean = tag.trim().toLowerCase().replace(/[-_]+/g, ' ').replace(/\s+/g, ' ');
+  return TAG_ALIASES[clean] ?? clean;
+}
+
+// normalized tags of one book, without duplicates or blanks
+export function normalizeTags(tags: string[]) {
+  return Array.from(new Set(tags.map(normalizeTag).filter(d => d.length > 0)));
+}
+
+// Symmetric tags × tags matrix of how many books carry both tags, out of a
+// tag × tag rollup; the diagonal holds the tag's own count.
+export function coOccurrence(rows: RollupRow[], tags: string[]) {
+  const index = new Map(tags.map((tag, i) => [tag, i]));
+  const matrix = tags.map(() => tags.map(() => 0));
+  for (const { keys: [row, col], value } of rows) {
+    if (index.has(row) && index.has(col)) matrix[index.get(row)!][index.get(col)!] += value;
+  }
+  return matrix;
+}
+
+// Orders the tags by average-linkage clustering on Jaccard distance, so tags
+// that tend to appear together end up next to each other in the matrix.
+export function clusterOrder(tags: string[], matrix: number[][]): string[] {
+  const distance = (i: number, j: number) => {
+    const union = matrix[i][i] + matrix[j][j] - matrix[i][j];
+    return union > 0 ? 1 - matrix[i][j] / union : 1;
+  };
+
+  let clusters = tags.map((_, i) => [i]);
+  while (clusters.length > 1) {
+    let best: [number, number] = [0, 1];
+    let bestDistance = Infinity;
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const d = d3.mean(clusters[a].flatMap(i => clusters[b].map(j => distance(i, j))))!;
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = [a, b];
+        }
+      }
+    }
+    const [a, b] = best;
+    clusters = [...clusters.filter((_, i) => i !== a && i !== b), [...clusters[a], ...clusters[b]]];
+  }
+  return (clusters[0] ?? []).map(i => tags[i]);
+}
+
+// the book carries every one of `tags`
+export const hasTags = (book: Book, tags: string[]) => tags.every(tag => book.tags.includes(tag));
@@ -0,0 +1,105 @@
+import * as d3 from 'd3';
+
+type ThemeMode = 'light' | 'dark';
+type PaletteName = 'classic' | 'okabeIto' | 'tolBright';
+
+// Colors the charts draw with, instead of hex codes in every file.
+interface ChartTheme {
+  mode: ThemeMode;
+  // one color per category, see `useCategoryColor`
+  categorical: readonly string[];
+  // low to high values, t in [0, 1]
+  sequential: (t: number) => string;
+  // below / around / above a midpoint, 0.5 being neutral
+  diverging: (t: number) => string;
+  // single-series marks, e.g. the timeline bars
+  accent: string;
+  // marks that need to stand out, e.g. outliers
+  highlight: string;
+  // plot area behind the marks
+  background: string;
+  // de-emphasized marks: "Other", years outside the selection, links
+  muted: string;
+  // borders of marks and whiskers
+  outline: string;
+  // outline of selected or highlighted marks
+  emphasis: string;
+  // thin gaps between neighbouring marks
+  separator: string;
+  // cell borders and other light structure
+  grid: string;
+  noData: string;
+}
+
+interface Palette {
+  label: string;
+  colorBlindSafe: boolean;
+  categorical: readonly string[];
+  sequential: (t: number) => string;
+  diverging: (t: number) => string;
+  highlight: string;
+}
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  // the colors the dashboard started with
+  classic: {
+    label: 'Classic',
+    colorBlindSafe: false,
+    categorical: [
+      '#1466a1', '#4daaed', '#119667', '#7cc37c',
+      '#a0dba0', '#aeddff', '#1fa284', '#55ecc8',
+      '#91c1b6', '#a3de79',
+    ],
+    sequential: d3.interpolateBlues,
+    diverging: t => d3.interpolateRdBu(1 - t),
+    highlight: '#C44D58',
+  },
+  // Okabe & Ito, "Color Universal Design"
+  okabeIto: {
+    label: 'Okabe–Ito',
+    colorBlindSafe: true,
+    categorical: ['#0072B2', '#E69F00', '#009E73', '#56B4E9', '#D55E00', '#CC79A7', '#F0E442', '#999999'],
+    sequential: d3.interpolateViridis,
+    diverging: d3.interpolatePuOr,
+    highlight: '#D55E00',
+  },
+  // Paul Tol's "bright" qualitative scheme
+  tolBright: {
+    label: 'Tol bright',
+    colorBlindSafe: true,
+    categorical: ['#4477AA', '#EE6677', '#228833', '#66CCEE', '#CCBB44', '#AA3377', '#BBBBBB'],
+    sequential: d3.interpolateCividis,
+    diverging: t => d3.interpolateRdBu(1 - t),
+    highlight: '#EE6677',
+  },
+};
+
+const NEUTRALS: Record<ThemeMode, Pick<ChartTheme, 'background' | 'muted' | 'outline' | 'emphasis' | 'separator' | 'grid' | 'noData'>> = {
+  light: {
+    background: '#f5f5f5',
+    muted: '#aeb8c2',
+    outline: '#333333',
+    emphasis: '#000000',
+    separator: '#ffffff',
+    grid: '#cccccc',
+    noData: '#e0e0e0',
+  },
+  dark: {
+    background: '#2a2a2a',
+    muted: '#5f6b75',
+    outline: '#bdbdbd',
+    emphasis: '#ffffff',
+    separator: '#121212',
+    grid: '#555555',
+    noData: '#424242',
+  },
+};
+
+export function chartTheme(mode: ThemeMode, palette: PaletteName): ChartTheme {
+  const { categorical, sequential, diverging, highlight } = PALETTES[palette];
+  // the first palette color, lifted on dark backgrounds where it would be too dim
+  const accent = mode === 'dark' ? d3.color(categorical[0])!.brighter(0.8).formatHex() : categorical[0];
+  return { mode, categorical, sequential, diverging, accent, highlight, ...NEUTRALS[mode] };
+}
+
+export type { ThemeMode, PaletteName, ChartTheme, Palette };
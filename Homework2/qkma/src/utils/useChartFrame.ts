@@ -0,0 +1,36 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts';
+import { ComponentSize, Margin } from '../types';
+
+// The chart's size in pixels and the plot area inside its margins.
+export interface ChartFrame extends ComponentSize {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  innerWidth: number;
+  innerHeight: number;
+}
+
+// Watches the chart's container and turns `margin`, given as fractions of the
+// width (left, right) and height (top, bottom), into pixels. The refs belong to
+// the calling chart, so any number of copies can be on the page at once.
+export function useChartFrame(margin: Margin) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 });
+
+  const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+  useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize });
+
+  const frame = useMemo((): ChartFrame => {
+    const { width, height } = size;
+    const left = margin.left * width;
+    const right = width - margin.right * width;
+    const top = margin.top * height;
+    const bottom = height - margin.bottom * height;
+    return { width, height, left, right, top, bottom, innerWidth: right - left, innerHeight: bottom - top };
+  }, [size, margin.left, margin.right, margin.top, margin.bottom]);
+
+  return { containerRef, svgRef, frame, ready: size.width > 0 && size.height > 0 };
+}
@@ -0,0 +1,133 @@
+import { Book } from '../types';
+import { parseBook } from '../stores/BookData';
+import { createCsvStream } from '../utils/csvStream';
+import { accumulate, finishRollup, summarizeDataset, DatasetSummary, RollupQuery, RollupRow, EMPTY_SUMMARY } from '../utils/rollup';
+import { filterBooks } from '../stores/FilterReducer';
+import { WORKER_REQUESTS, WORKER_RESPONSES, WorkerRequest, WorkerResponse } from './protocol';
+
+// Parses the dataset and answers rollup queries off the main thread, so a
+// large export does not freeze the charts while it loads or is filtered. The
+// books stay here; the page gets aggregates and asks for books by id.
+
+// books filtered and summed before the worker checks for newer messages
+const SLICE_SIZE = 20000;
+
+// the worker's global scope, typed by hand as the project only includes the DOM lib
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+let loaded: Book[] = [];
+let loadedSummary = EMPTY_SUMMARY;
+let uploaded: Book[] | null = null;
+// the current dataset's books by id, built on the first lookup
+let byId: Map<number, Book> | null = null;
+const loads = new Map<number, AbortController>();
+// rollups still summing, and those of them asked to stop; a CANCEL for any other
+// id arrived after its result was posted and is ignored
+const rollups = new Set<number>();
+const cancelled = new Set<number>();
+
+// lets queued messages (a CANCEL, a newer query) run before the next slice
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+async function load(id: number, url: string) {
+  // a new load supersedes the ones still running
+  loads.forEach(controller => controller.abort());
+  loads.clear();
+  const controller = new AbortController();
+  loads.set(id, controller);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok || !response.body) throw new Error(`${response.status} ${response.statusText}`);
+    const length = response.headers.get('Content-Length');
+    const progress = { bytes: 0, totalBytes: length ? +length : null, rows: 0 };
+
+    const books: Book[] = [];
+    const csv = createCsvStream(rows => {
+      rows.forEach(row => books.push(parseBook(row)));
+    });
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      csv.push(decoder.decode(value, { stream: true }));
+      progress.bytes += value.byteLength;
+      progress.rows = books.length;
+      scope.postMessage({ type: WORKER_RESPONSES.PROGRESS, id, progress: { ...progress } });
+    }
+    csv.push(decoder.decode());
+    csv.end();
+
+    loaded = books;
+    loadedSummary = summarizeDataset(books);
+    if (!uploaded) byId = null;
+    scope.postMessage({ type: WORKER_RESPONSES.LOADED, id, summary: loadedSummary });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      scope.postMessage({ type: WORKER_RESPONSES.ERROR, id, message: String(error) });
+    }
+  } finally {
+    loads.delete(id);
+  }
+}
+
+async function rollup(id: number, query: RollupQuery) {
+  const books = uploaded ?? loaded;
+  const totals = new Map<string, RollupRow>();
+  rollups.add(id);
+
+  try {
+    for (let start = 0; start < books.length; start += SLICE_SIZE) {
+      if (start > 0) await nextTask();
+      if (cancelled.has(id)) return;
+      const slice = filterBooks(books.slice(start, start + SLICE_SIZE), query.filters, query.ignore);
+      accumulate(totals, slice, query);
+    }
+    scope.postMessage({ type: WORKER_RESPONSES.RESULT, id, rows: finishRollup(totals) });
+  } finally {
+    rollups.delete(id);
+    cancelled.delete(id);
+  }
+}
+
+function setBooks(id: number, books: Book[] | null) {
+  uploaded = books;
+  byId = null;
+  const summary: DatasetSummary = books ? summarizeDataset(books) : loadedSummary;
+  scope.postMessage({ type: WORKER_RESPONSES.LOADED, id, summary });
+}
+
+// in the order asked for, ids the dataset does not have are skipped
+function lookup(id: number, ids: number[]) {
+  if (!byId) byId = new Map((uploaded ?? loaded).map(book => [book.id, book]));
+  const index = byId;
+  const books = ids.filter(bookId => index.has(bookId)).map(bookId => index.get(bookId)!);
+  scope.postMessage({ type: WORKER_RESPONSES.BOOKS, id, books });
+}
+
+scope.onmessage = event => {
+  const message = event.data;
+  switch (message.type) {
+    case WORKER_REQUESTS.LOAD:
+      load(message.id, message.url);
+      break;
+    case WORKER_REQUESTS.SET_BOOKS:
+      setBooks(message.id, message.books);
+      break;
+    case WORKER_REQUESTS.BOOKS:
+      lookup(message.id, message.ids);
+      break;
+    case WORKER_REQUESTS.ROLLUP:
+      rollup(message.id, message.query);
+      break;
+    case WORKER_REQUESTS.CANCEL:
+      if (loads.has(message.id)) loads.get(message.id)!.abort();
+      else if (rollups.has(message.id)) cancelled.add(message.id);
+      break;
+  }
+};
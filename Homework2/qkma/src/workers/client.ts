@@ -0,0 +1,91 @@
+import { Book } from '../types';
+import { DatasetSummary, RollupQuery, RollupRow, EMPTY_SUMMARY } from '../utils/rollup';
+import { WORKER_REQUESTS, WORKER_RESPONSES, LoadProgress, WorkerRequest, WorkerResponse } from './protocol';
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+const abortError = () => new DOMException('The request was superseded', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Starts a book worker and wraps its messages in promises. Aborting a request's
+// signal cancels it in the worker, which is how a newer query supersedes an older one.
+export function createBookWorker() {
+  const worker = new Worker(new URL('./bookWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+  const post = (message: WorkerRequest) => worker.postMessage(message);
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === WORKER_RESPONSES.PROGRESS) {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === WORKER_RESPONSES.ERROR) request.reject(new Error(response.message));
+    else request.resolve(response);
+  };
+
+  worker.onerror = event => {
+    const error = new Error(event.message || 'The book worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  function send(
+    message: (id: number) => WorkerRequest,
+    signal?: AbortSignal,
+    onProgress?: (progress: LoadProgress) => void,
+  ) {
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { resolve, reject, onProgress });
+      signal?.addEventListener('abort', () => {
+        if (!pending.delete(id)) return;
+        post({ type: WORKER_REQUESTS.CANCEL, id });
+        reject(abortError());
+      });
+      post(message(id));
+    });
+  }
+
+  return {
+    async load(url: string, onProgress?: (progress: LoadProgress) => void, signal?: AbortSignal): Promise<DatasetSummary> {
+      // relative urls resolve against the worker script, not the page, so resolve them here
+      const absolute = new URL(url, document.baseURI).href;
+      const response = await send(id => ({ type: WORKER_REQUESTS.LOAD, id, url: absolute }), signal, onProgress);
+      return response.type === WORKER_RESPONSES.LOADED ? response.summary : EMPTY_SUMMARY;
+    },
+    // null goes back to the books of the last load
+    async setBooks(books: Book[] | null): Promise<DatasetSummary> {
+      const response = await send(id => ({ type: WORKER_REQUESTS.SET_BOOKS, id, books }));
+      return response.type === WORKER_RESPONSES.LOADED ? response.summary : EMPTY_SUMMARY;
+    },
+    async rollup(query: RollupQuery, signal?: AbortSignal): Promise<RollupRow[]> {
+      const response = await send(id => ({ type: WORKER_REQUESTS.ROLLUP, id, query }), signal);
+      return response.type === WORKER_RESPONSES.RESULT ? response.rows : [];
+    },
+    async books(ids: number[], signal?: AbortSignal): Promise<Book[]> {
+      const response = await send(id => ({ type: WORKER_REQUESTS.BOOKS, id, ids }), signal);
+      return response.type === WORKER_RESPONSES.BOOKS ? response.books : [];
+    },
+    terminate() {
+      worker.terminate();
+      pending.forEach(request => request.reject(abortError()));
+      pending.clear();
+    },
+  };
+}
+
+export type BookWorker = ReturnType<typeof createBookWorker>;
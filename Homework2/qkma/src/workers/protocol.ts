@@ -0,0 +1,50 @@
+import { Book } from '../types';
+import { DatasetSummary, RollupQuery, RollupRow } from '../utils/rollup';
+
+// Messages between the dashboard and the book worker. Every request that gets
+// an answer carries an `id`, the answers echo it back.
+
+export const WORKER_REQUESTS = {
+  LOAD: 'LOAD',
+  SET_BOOKS: 'SET_BOOKS',
+  ROLLUP: 'ROLLUP',
+  BOOKS: 'BOOKS',
+  CANCEL: 'CANCEL',
+} as const;
+
+export const WORKER_RESPONSES = {
+  PROGRESS: 'PROGRESS',
+  LOADED: 'LOADED',
+  RESULT: 'RESULT',
+  BOOKS: 'BOOKS',
+  ERROR: 'ERROR',
+} as const;
+
+// How far a streamed csv has come. `totalBytes` is null when the server
+// does not send a length, e.g. for compressed responses.
+interface LoadProgress {
+  bytes: number;
+  totalBytes: number | null;
+  rows: number;
+}
+
+type WorkerRequest =
+  // fetch and parse a csv, the books become the dataset the rollups run on
+  | { type: typeof WORKER_REQUESTS.LOAD, id: number, url: string }
+  // aggregate another dataset (an upload), null goes back to the loaded csv
+  | { type: typeof WORKER_REQUESTS.SET_BOOKS, id: number, books: Book[] | null }
+  | { type: typeof WORKER_REQUESTS.ROLLUP, id: number, query: RollupQuery }
+  // the books behind a mark, for a drill-down or tooltip
+  | { type: typeof WORKER_REQUESTS.BOOKS, id: number, ids: number[] }
+  // stop a load or rollup that is no longer wanted; it sends no answer
+  | { type: typeof WORKER_REQUESTS.CANCEL, id: number };
+
+type WorkerResponse =
+  | { type: typeof WORKER_RESPONSES.PROGRESS, id: number, progress: LoadProgress }
+  // the books stay in the worker, the page only gets what it needs about all of them
+  | { type: typeof WORKER_RESPONSES.LOADED, id: number, summary: DatasetSummary }
+  | { type: typeof WORKER_RESPONSES.RESULT, id: number, rows: RollupRow[] }
+  | { type: typeof WORKER_RESPONSES.BOOKS, id: number, books: Book[] }
+  | { type: typeof WORKER_RESPONSES.ERROR, id: number, message: string };
+
+export type { LoadProgress, WorkerRequest, WorkerResponse };